@@ -0,0 +1,106 @@
+/**
+ * Pending Action Queue
+ *
+ * Local approval queue for outbound actions (public replies, private
+ * replies, curation, imported reviews). In staged mode these are written here instead of
+ * being sent, and only run once a person approves them.
+ *
+ * Stored as an append-only JSONL event log, so the full history of
+ * who staged, approved, rejected or executed each action is kept.
+ */
+
+import { randomBytes } from 'crypto';
+import type { CuratedState } from './curation-journal.js';
+import type { JudgemeErrorCode } from './errors.js';
+import type { ReviewCreatePayload } from './review-import.js';
+import { appendJsonl, readJsonl } from './local-data.js';
+
+export type StagedAction =
+  | { kind: 'reply'; reviewId: number; body: string; force?: boolean }
+  | { kind: 'private-reply'; reviewId: number; subject: string; body: string; force?: boolean }
+  | { kind: 'curate'; reviewId: number; status: CuratedState; batch?: BatchRef }
+  | { kind: 'create'; review: ReviewCreatePayload };
+
+/** Marks a curation staged by bulk curation, so approving it is journaled with its batch. */
+export interface BatchRef {
+  id: string;
+  action: 'apply' | 'undo';
+}
+
+export type ActionStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed';
+
+export interface ActionEvent {
+  id: string;
+  event: 'staged' | 'approved' | 'rejected' | 'executed' | 'failed';
+  at: string;
+  by?: string;
+  action?: StagedAction;   // staged only
+  note?: string;           // rejection reason or staging note
+  result?: unknown;        // executed only
+  error?: string;          // failed only
+  errorCode?: JudgemeErrorCode;   // failed only, when the error was typed
+}
+
+export interface QueuedAction {
+  id: string;
+  status: ActionStatus;
+  action: StagedAction;
+  stagedAt: string;
+  stagedBy?: string;
+  history: ActionEvent[];
+}
+
+const STATUS_BY_EVENT: Record<ActionEvent['event'], ActionStatus> = {
+  staged: 'pending',
+  approved: 'approved',
+  rejected: 'rejected',
+  executed: 'executed',
+  failed: 'failed',
+};
+
+export class ActionQueue {
+  constructor(private path: string) {}
+
+  stage(action: StagedAction, by?: string, note?: string): QueuedAction {
+    const id = `pa-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+    this.record({ id, event: 'staged', by, action, note });
+    return this.get(id)!;
+  }
+
+  record(event: Omit<ActionEvent, 'at'>): void {
+    appendJsonl(this.path, { ...event, at: new Date().toISOString() });
+  }
+
+  get(id: string): QueuedAction | null {
+    return this.all().find(a => a.id === id) ?? null;
+  }
+
+  /** Folds the event log into current action states, oldest first. */
+  all(): QueuedAction[] {
+    const actions = new Map<string, QueuedAction>();
+    for (const event of readJsonl<ActionEvent>(this.path)) {
+      if (event.event === 'staged' && event.action) {
+        actions.set(event.id, {
+          id: event.id,
+          status: 'pending',
+          action: event.action,
+          stagedAt: event.at,
+          stagedBy: event.by,
+          history: [event],
+        });
+        continue;
+      }
+      const existing = actions.get(event.id);
+      if (existing) {
+        existing.status = STATUS_BY_EVENT[event.event];
+        existing.history.push(event);
+      }
+    }
+    return [...actions.values()];
+  }
+
+  list(status?: ActionStatus): QueuedAction[] {
+    const actions = this.all();
+    return status ? actions.filter(a => a.status === status) : actions;
+  }
+}
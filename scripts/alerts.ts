@@ -0,0 +1,227 @@
+/**
+ * Review Alerts
+ *
+ * Threshold rules checked against newly created reviews:
+ * - rating: any review at or below a star rating
+ * - keyword: review text matches a search query or any of a list of words
+ * - average: a product's average rating over the last N days drops below a threshold
+ *
+ * Rules live in a local JSON file. A watermark (newest created_at seen,
+ * plus the review IDs at that instant) makes each check emit only hits
+ * that weren't reported before. Average rules fire once when they cross
+ * the threshold and re-arm after the average recovers.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import type { Review } from './judgeme-client.js';
+import { rankReviews } from './review-search.js';
+
+// Webhook delivery gives up after this long
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Review text carried in hits and webhook payloads is cut to this length
+const HIT_TEXT_MAX_CHARS = 500;
+
+interface RuleBase {
+  id: string;
+  productId?: number;   // Shopify product ID; limits the rule to one product
+}
+
+export type AlertRule =
+  | RuleBase & { type: 'rating'; maxRating: number }
+  | RuleBase & { type: 'keyword'; keywords?: string[]; query?: string }
+  | RuleBase & { type: 'average'; productId: number; below: number; days: number };
+
+export interface AlertRulesFile {
+  webhook?: { url: string };
+  rules: AlertRule[];
+}
+
+export interface ReviewAlertHit {
+  ruleId: string;
+  type: 'rating' | 'keyword';
+  reviewId: number;
+  rating: number;
+  productExternalId: number;
+  productTitle: string;
+  createdAt: string;
+  title: string;
+  body: string;
+  snippet?: string;   // keyword rules: highlighted match
+}
+
+export interface AverageAlertHit {
+  ruleId: string;
+  type: 'average';
+  productExternalId: number;
+  average: number;
+  below: number;
+  days: number;
+  reviewCount: number;
+}
+
+export type AlertHit = ReviewAlertHit | AverageAlertHit;
+
+export interface AlertState {
+  watermark: string | null;          // Newest review created_at already checked
+  idsAtWatermark: number[];          // Reviews sharing that exact timestamp
+  firedAverages: string[];           // Average rules currently below threshold
+  lastCheckedAt: string | null;
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid alert rules in ${path}: ${message}`);
+}
+
+/** Reads and validates the rules file. */
+export function loadAlertRules(path: string): AlertRulesFile {
+  if (!existsSync(path)) {
+    throw new Error(`Alert rules file not found: ${path}. Create it (see agent docs) or pass --rules.`);
+  }
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<AlertRulesFile>;
+  if (!Array.isArray(parsed.rules)) fail(path, '"rules" must be an array');
+
+  const ids = new Set<string>();
+  for (const rule of parsed.rules as Array<Partial<AlertRule> & { type?: string }>) {
+    if (!rule.id || typeof rule.id !== 'string') fail(path, 'every rule needs a string "id"');
+    if (ids.has(rule.id)) fail(path, `duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+
+    if (rule.type === 'rating') {
+      if (typeof rule.maxRating !== 'number' || rule.maxRating < 1 || rule.maxRating > 5) {
+        fail(path, `rule "${rule.id}": "maxRating" must be 1-5`);
+      }
+    } else if (rule.type === 'keyword') {
+      const hasKeywords = Array.isArray(rule.keywords) && rule.keywords.length > 0;
+      if (!hasKeywords && !rule.query) fail(path, `rule "${rule.id}": needs "keywords" or "query"`);
+    } else if (rule.type === 'average') {
+      if (typeof rule.productId !== 'number') fail(path, `rule "${rule.id}": "productId" is required`);
+      if (typeof rule.below !== 'number') fail(path, `rule "${rule.id}": "below" must be a number`);
+      if (typeof rule.days !== 'number' || rule.days < 1) fail(path, `rule "${rule.id}": "days" must be >= 1`);
+    } else {
+      fail(path, `rule "${rule.id}": unknown type "${rule.type}" (use rating, keyword or average)`);
+    }
+  }
+
+  if (parsed.webhook !== undefined && typeof parsed.webhook?.url !== 'string') {
+    fail(path, '"webhook.url" must be a string');
+  }
+  return parsed as AlertRulesFile;
+}
+
+function keywordQuery(rule: Extract<AlertRule, { type: 'keyword' }>): string {
+  if (rule.query) return rule.query;
+  return rule.keywords!.map(word => `"${word.replace(/"/g, '')}"`).join(' OR ');
+}
+
+function clip(text: string | null | undefined): string {
+  const value = text ?? '';
+  return value.length > HIT_TEXT_MAX_CHARS ? `${value.slice(0, HIT_TEXT_MAX_CHARS)}…` : value;
+}
+
+function reviewHit(rule: AlertRule, review: Review, snippet?: string): ReviewAlertHit {
+  return {
+    ruleId: rule.id,
+    type: rule.type as ReviewAlertHit['type'],
+    reviewId: review.id,
+    rating: review.rating,
+    productExternalId: review.product_external_id,
+    productTitle: review.product_title ?? '',
+    createdAt: review.created_at,
+    title: clip(review.title),
+    body: clip(review.body),
+    ...(snippet !== undefined ? { snippet } : {}),
+  };
+}
+
+/** Applies rating and keyword rules to new reviews. Average rules are handled separately. */
+export function evaluateReviewRules(reviews: Review[], rules: AlertRule[]): ReviewAlertHit[] {
+  const hits: ReviewAlertHit[] = [];
+  for (const rule of rules) {
+    const scoped = rule.productId !== undefined
+      ? reviews.filter(r => r.product_external_id === rule.productId)
+      : reviews;
+
+    if (rule.type === 'rating') {
+      for (const review of scoped) {
+        if (review.rating <= rule.maxRating) hits.push(reviewHit(rule, review));
+      }
+    } else if (rule.type === 'keyword') {
+      for (const hit of rankReviews(scoped, keywordQuery(rule))) {
+        hits.push(reviewHit(rule, hit.review, hit.snippet));
+      }
+    }
+  }
+  return hits.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt) || a.ruleId.localeCompare(b.ruleId));
+}
+
+/** Reviews created after the watermark (or at it, if not yet seen). */
+export function newSinceWatermark(reviews: Review[], state: AlertState): Review[] {
+  if (!state.watermark) return reviews;
+  const mark = Date.parse(state.watermark);
+  const seen = new Set(state.idsAtWatermark);
+  return reviews.filter(review => {
+    const created = Date.parse(review.created_at);
+    return created > mark || (created === mark && !seen.has(review.id));
+  });
+}
+
+/** Moves the watermark to the newest review in `reviews`. */
+export function advanceWatermark(state: AlertState, reviews: Review[]): AlertState {
+  let watermark = state.watermark;
+  let mark = watermark ? Date.parse(watermark) : -Infinity;
+  let ids = [...state.idsAtWatermark];
+  for (const review of reviews) {
+    const created = Date.parse(review.created_at);
+    if (created > mark) {
+      mark = created;
+      watermark = review.created_at;
+      ids = [review.id];
+    } else if (created === mark && !ids.includes(review.id)) {
+      ids.push(review.id);
+    }
+  }
+  return { ...state, watermark, idsAtWatermark: ids };
+}
+
+export class AlertStateStore {
+  constructor(private path: string) {}
+
+  load(): AlertState {
+    if (!existsSync(this.path)) {
+      return { watermark: null, idsAtWatermark: [], firedAverages: [], lastCheckedAt: null };
+    }
+    return JSON.parse(readFileSync(this.path, 'utf-8')) as AlertState;
+  }
+
+  save(state: AlertState): void {
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(state, null, 2), 'utf-8');
+    renameSync(tmp, this.path);
+  }
+}
+
+/** POSTs the payload as JSON. Never throws; the result says whether delivery worked. */
+export async function postWebhook(
+  url: string,
+  payload: unknown
+): Promise<{ url: string; ok: boolean; status?: number; error?: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+    return { url, ok: response.ok, status: response.status };
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'AbortError'
+      ? `timed out after ${WEBHOOK_TIMEOUT_MS / 1000}s`
+      : error instanceof Error ? error.message : String(error);
+    return { url, ok: false, error: message };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
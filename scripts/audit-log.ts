@@ -0,0 +1,69 @@
+/**
+ * Mutation Audit Log
+ *
+ * Append-only JSONL record of every mutating Judge.me call (curation,
+ * public replies, private replies, review creation), successful or not.
+ * Reply text is kept in full so "did we already reply?" can be answered
+ * later.
+ */
+
+import { createHash } from 'crypto';
+import { appendJsonl, readJsonl } from './local-data.js';
+
+export type AuditAction = 'curate' | 'reply' | 'private-reply' | 'create';
+
+export interface AuditEntry {
+  at: string;
+  action: AuditAction;
+  reviewId?: number;             // Absent for 'create': Judge.me assigns the ID
+  reviewerId?: number;
+  productExternalId?: number;    // 'create': Shopify product ID
+  actor: string;
+  payloadHash: string;
+  status: 'success' | 'error';
+  curated?: string | null;
+  subject?: string;
+  replyText?: string;
+  error?: string;
+}
+
+export interface AuditQuery {
+  since?: number;   // epoch ms
+  until?: number;   // epoch ms
+  reviewId?: number;
+  reviewerId?: number;
+  action?: AuditAction;
+  status?: AuditEntry['status'];
+  limit?: number;   // newest N entries
+}
+
+/** Stable SHA-256 of a request payload, for matching entries without storing secrets. */
+export function hashPayload(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(payload ?? null)).digest('hex');
+}
+
+export class AuditLog {
+  constructor(private path: string) {}
+
+  append(entry: Omit<AuditEntry, 'at'>): AuditEntry {
+    const record: AuditEntry = { at: new Date().toISOString(), ...entry };
+    appendJsonl(this.path, record);
+    return record;
+  }
+
+  /** Returns matching entries, newest first. */
+  query(filters: AuditQuery = {}): AuditEntry[] {
+    const matches = readJsonl<AuditEntry>(this.path).filter(entry => {
+      const at = Date.parse(entry.at);
+      if (filters.since !== undefined && at < filters.since) return false;
+      if (filters.until !== undefined && at > filters.until) return false;
+      if (filters.reviewId !== undefined && entry.reviewId !== filters.reviewId) return false;
+      if (filters.reviewerId !== undefined && entry.reviewerId !== filters.reviewerId) return false;
+      if (filters.action !== undefined && entry.action !== filters.action) return false;
+      if (filters.status !== undefined && entry.status !== filters.status) return false;
+      return true;
+    });
+    matches.reverse();
+    return filters.limit !== undefined ? matches.slice(0, filters.limit) : matches;
+  }
+}
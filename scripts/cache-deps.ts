@@ -0,0 +1,139 @@
+/**
+ * Cache Dependency Index
+ *
+ * Remembers what each cached response depends on, so a mutation clears
+ * exactly the entries it makes stale instead of every key that happens
+ * to share a prefix:
+ *
+ * - a single review depends on that review;
+ * - a list page depends on the reviews it contains and on its filter
+ *   scope (new reviews shift every page in scope);
+ * - a count depends on its scope;
+ * - product lists and shop info depend on review stats.
+ *
+ * Reviewer lookups are never tracked, so review mutations leave them
+ * alone. The index is a JSON file beside the other local state, read on
+ * every call so a webhook receiver and CLI runs see each other's entries.
+ */
+
+import { existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+
+export type DependencyKind = 'review' | 'list' | 'count' | 'stats';
+
+/** Filters a list or count was fetched with; absent means "all". */
+export interface CacheScope {
+  productId?: number;    // Judge.me internal product ID
+  rating?: number;
+}
+
+export interface CacheDependency {
+  kind: DependencyKind;
+  reviewIds?: number[];
+  scope?: CacheScope;
+}
+
+/**
+ * What changed about a review. `productId` null means the product is
+ * unknown, and an absent rating means it may have changed; both match
+ * every scope.
+ */
+export interface ReviewChange {
+  reviewId?: number;
+  productId?: number | null;
+  rating?: number;
+  created?: boolean;         // A new review: lists and counts in scope shift
+  statsChanged?: boolean;    // Publication or rating changed: counts and stats move
+}
+
+interface IndexEntry extends CacheDependency {
+  at: number;                // When the entry was cached (epoch ms)
+}
+
+function inScope(scope: CacheScope | undefined, change: ReviewChange): boolean {
+  if (!scope) return true;
+  const productMatches = scope.productId === undefined || change.productId == null || scope.productId === change.productId;
+  const ratingMatches = scope.rating === undefined || change.rating === undefined || scope.rating === change.rating;
+  return productMatches && ratingMatches;
+}
+
+/** True if a cached entry with this dependency is stale after `change`. */
+export function isAffected(dep: CacheDependency, change: ReviewChange): boolean {
+  const containsReview = change.reviewId !== undefined && (dep.reviewIds ?? []).includes(change.reviewId);
+  switch (dep.kind) {
+    case 'review':
+      return containsReview;
+    case 'list':
+      return containsReview || (Boolean(change.created) && inScope(dep.scope, change));
+    case 'count':
+      return Boolean(change.created || change.statsChanged) && inScope(dep.scope, change);
+    case 'stats':
+      return Boolean(change.created || change.statsChanged);
+  }
+}
+
+export class CacheDependencyIndex {
+  /**
+   * @param path - JSON file holding the index
+   * @param retainMs - Entries older than this are dropped (their cache entries have expired)
+   */
+  constructor(private path: string, private retainMs: number) {}
+
+  /** True until the first entry is written; older caches have no index. */
+  get isNew(): boolean {
+    return !existsSync(this.path);
+  }
+
+  track(key: string, dependency: CacheDependency): void {
+    const entries = this.load();
+    entries[key] = { ...dependency, at: Date.now() };
+    this.save(entries);
+  }
+
+  /** Removes and returns the keys that `change` makes stale. */
+  takeAffected(change: ReviewChange): string[] {
+    const entries = this.load();
+    const keys = Object.keys(entries).filter(key => isAffected(entries[key], change));
+    if (keys.length > 0) {
+      for (const key of keys) delete entries[key];
+      this.save(entries);
+    }
+    return keys;
+  }
+
+  forget(key: string): void {
+    const entries = this.load();
+    if (entries[key]) {
+      delete entries[key];
+      this.save(entries);
+    }
+  }
+
+  clear(): void {
+    this.save({});
+  }
+
+  private load(): Record<string, IndexEntry> {
+    if (!existsSync(this.path)) return {};
+    const entries = JSON.parse(readFileSync(this.path, 'utf-8')) as Record<string, IndexEntry>;
+    const cutoff = Date.now() - this.retainMs;
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry.at < cutoff) delete entries[key];
+    }
+    return entries;
+  }
+
+  /**
+   * Per-process temp file, so concurrent writers (CLI runs, the webhook
+   * receiver) never rename each other's half-written index. A failed
+   * rename keeps the previous index, as if another writer had won the race.
+   */
+  private save(entries: Record<string, IndexEntry>): void {
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(entries), 'utf-8');
+    try {
+      renameSync(tmp, this.path);
+    } catch {
+      try { unlinkSync(tmp); } catch { /* already gone */ }
+    }
+  }
+}
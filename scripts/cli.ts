@@ -5,62 +5,330 @@
  * Zod-validated CLI for Judge.me product review management.
  */
 
+import { readFileSync, writeFileSync } from "fs";
 import { z, createCommand, runCli, cacheCommands, cliTypes, wrapUntrustedField, buildSafeOutput } from "@local/cli-utils";
-import { JudgemeClient } from "./judgeme-client.js";
+import { ALL_STORES, JudgemeClient, type CredentialCheck } from "./judgeme-client.js";
+import { resolveDateFilter, type ReviewFilters } from "./review-filters.js";
+import type { QueuedAction, StagedAction } from "./action-queue.js";
+import type { ReviewTags } from "./review-tagging.js";
+import type { WebhookEvent } from "./webhooks.js";
+import { EXIT_CODES, JudgemeError, JudgemeNotFoundError, JudgemeValidationError } from "./errors.js";
+import { formatAnalyticsTable, type AnalyticsReport } from "./review-analytics.js";
+import { parseColumnOverrides } from "./review-import.js";
+
+// Shared --source option: "local" answers from the synced mirror (run `sync` first)
+const sourceOption = z.enum(["local", "api"]).default("api").describe("Read from the live API or the local mirror");
+
+// Shared review filters for list/count/search. Only product and exact rating
+// reach the API; the rest are applied client-side (or in SQL with --source local).
+const reviewFilterOptions = {
+  minRating: cliTypes.int(1, 5).optional().describe("Minimum star rating"),
+  maxRating: cliTypes.int(1, 5).optional().describe("Maximum star rating"),
+  createdAfter: z.string().optional().describe("Created on/after: ISO date or duration like 7d, 24h"),
+  createdBefore: z.string().optional().describe("Created on/before: ISO date or duration like 7d, 24h"),
+  curated: z.enum(["ok", "spam", "pending"]).optional().describe("Curation state (pending = not yet curated)"),
+  verifiedBuyer: z.boolean().optional().describe("Only verified buyers (or only non-buyers if false)"),
+  hasPictures: z.boolean().optional().describe("Only reviews with (or without) pictures"),
+  hasReply: z.boolean().optional().describe("Only reviews with (or without) a public reply"),
+  hidden: z.boolean().optional().describe("Only hidden (or visible) reviews"),
+  published: z.boolean().optional().describe("Only published (or unpublished) reviews"),
+};
+
+/** Extracts ReviewFilters from parsed CLI args. */
+function pickFilters(args: Record<string, unknown>): ReviewFilters {
+  const filters: Record<string, unknown> = {};
+  for (const key of ["rating", ...Object.keys(reviewFilterOptions)]) {
+    if (args[key] !== undefined) filters[key] = args[key];
+  }
+  return filters as ReviewFilters;
+}
+
+// Shared --all/--limit streaming options for list commands
+const streamOptions = {
+  all: z.boolean().optional().describe("Stream every matching item as NDJSON instead of one page"),
+  limit: cliTypes.int(1).optional().describe("Stream up to N items as NDJSON (implies --all)"),
+  concurrency: cliTypes.int(1, 5).optional().describe("Pages fetched in parallel when streaming (default: 1)"),
+};
+
+// --force for replies: skip duplicate-reply, cooldown and resend guards
+const forceOption = z.boolean().optional().describe("Send even if a reply already exists or was sent recently");
+
+// --stage option for outbound commands; config `stagedMode: true` forces it on
+const stageOption = z.boolean().optional().describe("Queue for approval instead of sending (always on in staged mode)");
+
+/**
+ * Sends an outbound action, or queues it when staging is requested or
+ * enforced by config. Returns the API result or the queued action.
+ */
+async function sendOrStage(
+  client: JudgemeClient,
+  stage: boolean | undefined,
+  action: StagedAction
+): Promise<{ staged: boolean; result: unknown }> {
+  if (stage || client.isStagedMode()) {
+    const queued = client.stageAction(action);
+    return {
+      staged: true,
+      result: { actionId: queued.id, status: queued.status, approve: `approve --id ${queued.id}` },
+    };
+  }
+  switch (action.kind) {
+    case "reply":
+      return {
+        staged: false,
+        result: await client.replyToReview(action.reviewId, action.body, { force: action.force }),
+      };
+    case "private-reply":
+      return {
+        staged: false,
+        result: await client.sendPrivateReply(action.reviewId, action.subject, action.body, { force: action.force }),
+      };
+    case "curate":
+      return { staged: false, result: await client.curateReview(action.reviewId, action.status) };
+    case "create":
+      return { staged: false, result: await client.createReview(action.review) };
+  }
+}
+
+/** Wraps a queued action for output; reply text may carry review-derived values. */
+function wrapQueuedAction(a: QueuedAction) {
+  const { action } = a;
+  return {
+    metadata: {
+      id: a.id,
+      status: a.status,
+      kind: action.kind,
+      reviewId: action.kind !== "create" ? action.reviewId : undefined,
+      productId: action.kind === "create" ? action.review.id : undefined,
+      curationStatus: action.kind === "curate" ? action.status : undefined,
+      stagedAt: a.stagedAt,
+      stagedBy: a.stagedBy,
+      history: a.history.map(({ event, at, by, note, error }) => ({ event, at, by, note, error })),
+    },
+    content: {
+      subject: action.kind === "private-reply"
+        ? wrapUntrustedField("subject", action.subject, { maxChars: 500 })
+        : undefined,
+      title: action.kind === "create" && action.review.title
+        ? wrapUntrustedField("title", action.review.title, { maxChars: 500 })
+        : undefined,
+      body: action.kind === "create"
+        ? wrapUntrustedField("body", action.review.body, { maxChars: 8000 })
+        : action.kind !== "curate" ? wrapUntrustedField("body", action.body, { maxChars: 8000 }) : undefined,
+    },
+  };
+}
+
+/** Wraps a review's untrusted fields for output. */
+function wrapReview(r: any, tags?: ReviewTags) {
+  return {
+    metadata: {
+      id: r.id,
+      rating: r.rating,
+      created_at: r.created_at,
+      curated: r.curated,
+      verified: r.verified,
+      source: r.source,
+      product_id: r.product_id,
+      // Derived locally from the text; labels only, no review content
+      ...(tags ? { tags } : {}),
+    },
+    content: {
+      title: wrapUntrustedField("title", r.title, { maxChars: 500 }),
+      body: wrapUntrustedField("body", r.body, { maxChars: 8000 }),
+      reviewerName: wrapUntrustedField("reviewer.name", r.reviewer?.name, { maxChars: 200 }),
+      reviewerEmail: wrapUntrustedField("reviewer.email", r.reviewer?.email, { maxChars: 200 }),
+      productTitle: wrapUntrustedField("product_title", r.product_title, { maxChars: 500 }),
+    },
+  };
+}
+
+/**
+ * Replaces a reviewer's known name (whole and by part), email and phone
+ * inside free text. Spellings that differ from the record get through.
+ */
+function maskKnownPii<T extends string | null | undefined>(
+  text: T,
+  reviewer: { name?: string | null; email?: string | null; phone?: string | null }
+): T {
+  if (!text) return text;
+  const name = reviewer.name?.trim() ?? "";
+  const needles = [reviewer.email, reviewer.phone, name, ...name.split(/\s+/)]
+    .map(n => n?.trim() ?? "")
+    .filter(n => n.length >= 2)
+    .sort((a, b) => b.length - a.length)
+    .map(n => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (needles.length === 0) return text;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${needles.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+  return text.replace(pattern, "[redacted]") as T;
+}
+
+/** Wraps a product's untrusted fields for output. */
+function wrapProduct(p: any) {
+  return {
+    metadata: {
+      id: p.id,
+      external_id: p.external_id,
+      reviews_count: p.reviews_count,
+      average_rating: p.average_rating,
+    },
+    content: {
+      title: wrapUntrustedField("title", p.name || p.title, { maxChars: 500 }),
+    },
+  };
+}
+
+/** Wraps analytics product rows; the title comes from the shop and is untrusted. */
+function wrapAnalyticsProducts(products: AnalyticsReport["products"]) {
+  return products.map(({ productTitle, ...stats }) => ({
+    metadata: stats,
+    content: { title: wrapUntrustedField("title", productTitle, { maxChars: 500 }) },
+  }));
+}
+
+/** Wraps a queued webhook event; the review inside it is untrusted like any other. */
+function wrapWebhookEvent(e: WebhookEvent, client: JudgemeClient) {
+  const review = wrapReview(e.review, client.tagReview(e.review));
+  return {
+    metadata: { eventId: e.id, topic: e.topic, receivedAt: e.receivedAt, deliveryId: e.deliveryId, ...review.metadata },
+    content: review.content,
+  };
+}
+
+/**
+ * Exit code for approvals whose execution failed: the first failure's
+ * typed error code, or API for untyped errors. Undefined when none failed.
+ */
+function failedExitCode(actions: QueuedAction[]): number | undefined {
+  const failed = actions.find(a => a.status === "failed");
+  if (!failed) return undefined;
+  const event = failed.history.find(e => e.event === "failed");
+  return EXIT_CODES[event?.errorCode ?? "API"];
+}
+
+/** True when the shared wrapper flags `text` as a likely injection attempt. */
+function flaggedByWrapper(field: string, text: string): boolean {
+  const wrapped: unknown = wrapUntrustedField(field, text, { maxChars: 8000 });
+  return typeof wrapped === "object" && wrapped !== null && "suspicious" in wrapped && Boolean(wrapped.suspicious);
+}
+
+/**
+ * Writes each item as one JSON line on stdout. The command's return
+ * value (a summary) is printed after the stream by runCli.
+ */
+async function streamNdjson<T>(items: AsyncIterable<T> | Iterable<T>, wrap: (item: T) => unknown): Promise<number> {
+  let count = 0;
+  for await (const item of items) {
+    process.stdout.write(`${JSON.stringify(wrap(item))}\n`);
+    count++;
+  }
+  return count;
+}
+
+// Handlers that know how to run against every store (--store all)
+const crossStoreHandlers = new WeakSet<Function>();
+
+/** Marks a handler as supporting --store all; other commands reject it. */
+function crossStore<H extends Parameters<typeof createCommand>[1]>(handler: H): H {
+  crossStoreHandlers.add(handler);
+  return handler;
+}
+
+/**
+ * createCommand with Judge.me error handling: typed errors are printed as
+ * structured JSON on stdout and exit with their stable exit code, so
+ * callers can branch on `error.code` instead of parsing messages.
+ */
+const command: typeof createCommand = (schema, handler, description) =>
+  createCommand(
+    schema,
+    async (args, client: JudgemeClient) => {
+      try {
+        if (client.isAllStores() && !crossStoreHandlers.has(handler)) {
+          throw new JudgemeValidationError(`This command works on one store at a time, not --store ${ALL_STORES}`, {
+            suggestion: `Pick a store with --store <name> (configured: ${client.listStores().join(", ")})`,
+          });
+        }
+        return await handler(args, client);
+      } catch (error) {
+        if (!(error instanceof JudgemeError)) {
+          // Unexpected errors are printed by runCli; keep tokens out of them too
+          if (error instanceof Error) {
+            error.message = client.redact(error.message);
+            if (error.stack) error.stack = client.redact(error.stack);
+          }
+          throw error;
+        }
+        const output = `${client.redact(JSON.stringify({ error: error.toJSON() }, null, 2))}\n`;
+        // Exit only once stdout has flushed, or piped output gets truncated
+        process.stdout.write(output, () => process.exit(error.exitCode));
+        return new Promise<never>(() => {});
+      }
+    },
+    description
+  );
 
 // Define commands with Zod schemas
 const commands = {
-  "list-tools": createCommand(
+  "list-tools": command(
     z.object({}),
     async (_args, client: JudgemeClient) => ({ tools: client.listTools() }),
     "List all available CLI commands"
   ),
 
   // Review commands
-  "list-reviews": createCommand(
+  "list-reviews": command(
     z.object({
       page: cliTypes.int(1).optional().describe("Page number"),
       perPage: cliTypes.int(1, 100).optional().describe("Results per page (max 100)"),
       productId: cliTypes.int(1).optional().describe("Shopify product ID to filter by"),
       rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      ...streamOptions,
+      source: sourceOption,
     }),
     async (args, client: JudgemeClient) => {
-      const { page, perPage, productId, rating } = args as {
-        page?: number; perPage?: number; productId?: number; rating?: number;
+      const { page, perPage, productId, all, limit, concurrency, source } = args as {
+        page?: number; perPage?: number; productId?: number;
+        all?: boolean; limit?: number; concurrency?: number; source: "local" | "api";
       };
-      const result: any = await client.listReviews({
-        page, perPage, shopifyProductId: productId, rating,
-      });
+      const options = { page, perPage, shopifyProductId: productId, ...pickFilters(args) };
+
+      if (all || limit !== undefined) {
+        const iterOptions = { ...options, maxItems: limit, concurrency };
+        const streamed = await streamNdjson(
+          source === "local"
+            ? client.getMirror().iterateReviews(iterOptions)
+            : client.iterateReviews(iterOptions),
+          r => wrapReview(r, client.tagReview(r))
+        );
+        return { command: "list-reviews", dataSource: source, format: "ndjson", streamed };
+      }
+
+      const result: any = source === "local"
+        ? client.getMirror().listReviews(options)
+        : await client.listReviews(options);
 
       const reviews = (result?.reviews || result?.data || []);
-      const wrappedReviews = (Array.isArray(reviews) ? reviews : []).map((r: any) => ({
-        metadata: {
-          id: r.id,
-          rating: r.rating,
-          created_at: r.created_at,
-          curated: r.curated,
-          verified: r.verified,
-          source: r.source,
-          product_id: r.product_id,
-        },
-        content: {
-          title: wrapUntrustedField("title", r.title, { maxChars: 500 }),
-          body: wrapUntrustedField("body", r.body, { maxChars: 8000 }),
-          reviewerName: wrapUntrustedField("reviewer.name", r.reviewer?.name, { maxChars: 200 }),
-          reviewerEmail: wrapUntrustedField("reviewer.email", r.reviewer?.email, { maxChars: 200 }),
-          productTitle: wrapUntrustedField("product_title", r.product_title, { maxChars: 500 }),
-        },
-      }));
+      const wrappedReviews = (Array.isArray(reviews) ? reviews : []).map((r: any) => wrapReview(r, client.tagReview(r)));
 
       return buildSafeOutput(
-        { command: "list-reviews", count: wrappedReviews.length, page: result?.current_page, totalPages: result?.total_pages },
+        {
+          command: "list-reviews",
+          dataSource: source,
+          count: wrappedReviews.length,
+          page: result?.current_page,
+          totalPages: result?.total_pages,
+          filters: result?.filters,
+          pagesScanned: result?.pagesScanned,
+        },
         { reviews: wrappedReviews }
       );
     },
     "List product reviews with optional filters"
   ),
 
-  "get-review": createCommand(
+  "get-review": command(
     z.object({
       id: cliTypes.int(1).describe("Review ID"),
     }),
@@ -92,46 +360,60 @@ const commands = {
     "Get a specific review by ID"
   ),
 
-  "count-reviews": createCommand(
+  "count-reviews": command(
     z.object({
       productId: cliTypes.int(1).optional().describe("Shopify product ID to filter by"),
       rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      source: sourceOption,
+    }),
+    crossStore(async (args, client: JudgemeClient) => {
+      const { productId, source } = args as { productId?: number; source: "local" | "api" };
+      const options = { shopifyProductId: productId, ...pickFilters(args) };
+      if (client.isAllStores()) return client.countReviewsAcrossStores({ ...options, source });
+      return source === "local"
+        ? client.getMirror().countReviews(options)
+        : client.countReviews(options);
     }),
-    async (args, client: JudgemeClient) => {
-      const { productId, rating } = args as { productId?: number; rating?: number };
-      return client.countReviews({
-        shopifyProductId: productId,
-        rating,
-      });
-    },
     "Get review count with optional filters"
   ),
 
-  "search-reviews": createCommand(
+  "search-reviews": command(
     z.object({
-      search: z.string().min(1).describe("Search term"),
+      search: z.string().min(1).describe('Search query: terms, "phrases", AND/OR/NOT, (groups), -negation'),
       rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
       maxPages: cliTypes.int(1, 10).optional().describe("Max pages to search (default: 5)"),
+      fuzzy: z.boolean().optional().describe("Allow small typos in query terms"),
+      reviewerName: z.string().min(1).optional().describe("Only reviews whose reviewer name contains this"),
+      productTitle: z.string().min(1).optional().describe("Only reviews whose product title contains this"),
+      ...reviewFilterOptions,
+      source: sourceOption,
     }),
     async (args, client: JudgemeClient) => {
-      const { search, rating, maxPages } = args as {
-        search: string; rating?: number; maxPages?: number;
+      const { search, maxPages, fuzzy, reviewerName, productTitle, source } = args as {
+        search: string; maxPages?: number; fuzzy?: boolean;
+        reviewerName?: string; productTitle?: string; source: "local" | "api";
       };
-      const result: any = await client.searchReviews({ search, rating, maxPages });
+      const searchOptions = { search, fuzzy, reviewerName, productTitle, ...pickFilters(args) };
+      const result = source === "local"
+        ? client.getMirror().searchReviews(searchOptions)
+        : await client.searchReviews({ ...searchOptions, maxPages });
 
-      const reviews = (result?.reviews || result?.data || result || []);
-      const wrappedReviews = (Array.isArray(reviews) ? reviews : []).map((r: any) => ({
+      const wrappedReviews = result.hits.map(({ review: r, score, snippet }: any) => ({
         metadata: {
           id: r.id,
           rating: r.rating,
+          score,
           created_at: r.created_at,
           curated: r.curated,
           verified: r.verified,
           product_id: r.product_id,
+          tags: client.tagReview(r),
         },
         content: {
           title: wrapUntrustedField("title", r.title, { maxChars: 500 }),
           body: wrapUntrustedField("body", r.body, { maxChars: 8000 }),
+          snippet: wrapUntrustedField("snippet", snippet, { maxChars: 500 }),
           reviewerName: wrapUntrustedField("reviewer.name", r.reviewer?.name, { maxChars: 200 }),
           reviewerEmail: wrapUntrustedField("reviewer.email", r.reviewer?.email, { maxChars: 200 }),
           productTitle: wrapUntrustedField("product_title", r.product_title, { maxChars: 500 }),
@@ -139,56 +421,325 @@ const commands = {
       }));
 
       return buildSafeOutput(
-        { command: "search-reviews", search, count: wrappedReviews.length },
+        {
+          command: "search-reviews",
+          dataSource: source,
+          search,
+          fuzzy: fuzzy ?? false,
+          pagesSearched: result.pagesSearched,
+          filters: result.filters,
+          count: wrappedReviews.length,
+        },
         { reviews: wrappedReviews }
       );
     },
-    "Search reviews by keyword"
+    "Full-text search reviews, ranked by relevance"
   ),
 
-  "curate-review": createCommand(
+  "curate-review": command(
     z.object({
       id: cliTypes.int(1).describe("Review ID"),
       status: z.enum(["ok", "spam"]).describe("Curation status"),
+      stage: stageOption,
     }),
     async (args, client: JudgemeClient) => {
-      const { id, status } = args as { id: number; status: "ok" | "spam" };
-      return client.curateReview(id, status);
+      const { id, status, stage } = args as { id: number; status: "ok" | "spam"; stage?: boolean };
+      const { result } = await sendOrStage(client, stage, { kind: "curate", reviewId: id, status });
+      return result;
     },
     "Mark review as ok or spam"
   ),
 
-  "reply-to-review": createCommand(
+  "bulk-curate": command(
+    z.object({
+      status: z.enum(["ok", "spam"]).optional().describe("Target curation status (required for --dry-run)"),
+      ids: z.string().optional().describe("Comma-separated review IDs"),
+      file: z.string().optional().describe("File of review IDs (separated by newlines, commas or spaces)"),
+      productId: cliTypes.int(1).optional().describe("Shopify product ID to filter by"),
+      rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      keyword: z.string().min(1).optional().describe("Search query the review must match"),
+      reviewerEmail: z.string().email().optional().describe("Only reviews by this reviewer email"),
+      maxItems: cliTypes.int(1, 5000).optional().describe("Cap on reviews a filter selection may change (default: 500)"),
+      dryRun: z.boolean().optional().describe("Preview the reviews that would change and record a batch"),
+      confirm: z.string().optional().describe("Apply a batch previously created with --dry-run"),
+      undo: z.string().optional().describe("Restore the previous curation state of an applied batch"),
+    }).refine(
+      (data) => [data.dryRun, data.confirm, data.undo].filter(Boolean).length === 1,
+      { message: "Use exactly one of --dry-run, --confirm <batch-id> or --undo <batch-id>" }
+    ).refine(
+      (data) => !data.dryRun || data.status !== undefined,
+      { message: "--status is required with --dry-run" }
+    ),
+    async (args, client: JudgemeClient) => {
+      const { status, ids, file, productId, keyword, reviewerEmail, maxItems, confirm, undo } = args as {
+        status?: "ok" | "spam"; ids?: string; file?: string; productId?: number; keyword?: string;
+        reviewerEmail?: string; maxItems?: number; confirm?: string; undo?: string;
+      };
+
+      if (undo) return client.undoBulkCuration(undo);
+      if (confirm) return client.applyBulkCuration(confirm);
+
+      const idList = [ids ?? "", file ? readFileSync(file, "utf-8") : ""]
+        .join(",")
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(id => {
+          const parsed = Number(id);
+          if (!Number.isInteger(parsed) || parsed < 1) {
+            throw new Error(`Invalid review ID: ${id}`);
+          }
+          return parsed;
+        });
+
+      const { plan, reviews } = await client.planBulkCuration(status!, {
+        ...pickFilters(args),
+        ids: idList,
+        keyword,
+        reviewerEmail,
+        shopifyProductId: productId,
+        maxItems,
+      });
+
+      return buildSafeOutput(
+        {
+          command: "bulk-curate",
+          dryRun: true,
+          batchId: plan.batchId,
+          status: plan.status,
+          count: plan.reviews.length,
+          truncated: plan.truncated ?? false,
+          apply: `bulk-curate --confirm ${plan.batchId}`,
+        },
+        { reviews: reviews.map(r => wrapReview(r)) }
+      );
+    },
+    "Curate many reviews: --dry-run a selection, then --confirm or --undo the batch"
+  ),
+
+  "reply-to-review": command(
     z.object({
       reviewId: cliTypes.int(1).describe("Review ID to reply to"),
-      reply: z.string().min(1).describe("Public reply text"),
-    }),
+      reply: z.string().min(1).optional().describe("Public reply text"),
+      template: z.string().min(1).optional().describe("Reply template name, or 'auto' to pick by rating"),
+      preview: z.boolean().optional().describe("Render the template without posting"),
+      force: forceOption,
+      stage: stageOption,
+    }).refine(
+      (data) => (data.reply !== undefined) !== (data.template !== undefined),
+      { message: "Provide exactly one of --reply or --template" }
+    ),
     async (args, client: JudgemeClient) => {
-      const { reviewId, reply } = args as { reviewId: number; reply: string };
-      return client.replyToReview(reviewId, reply);
+      const { reviewId, reply, template, preview, force, stage } = args as {
+        reviewId: number; reply?: string; template?: string; preview?: boolean; force?: boolean; stage?: boolean;
+      };
+      if (reply !== undefined) {
+        const { result } = await sendOrStage(client, stage, { kind: "reply", reviewId, body: reply, force });
+        return result;
+      }
+
+      const rendered = await client.renderReplyTemplate(reviewId, { template, kind: "public" });
+      const { staged, result } = preview
+        ? { staged: false, result: undefined }
+        : await sendOrStage(client, stage, { kind: "reply", reviewId, body: rendered.body, force });
+      return buildSafeOutput(
+        {
+          command: "reply-to-review",
+          reviewId,
+          template: rendered.template,
+          posted: !preview && !staged,
+          staged,
+          warnings: rendered.warnings,
+          result,
+        },
+        { body: wrapUntrustedField("rendered.body", rendered.body, { maxChars: 8000 }) }
+      );
     },
-    "Post a public reply to a review"
+    "Post a public reply to a review (raw text or rendered template)"
   ),
 
-  "private-reply": createCommand(
+  "private-reply": command(
     z.object({
       reviewId: cliTypes.int(1).describe("Review ID to reply to"),
-      subject: z.string().min(1).describe("Email subject"),
-      body: z.string().min(1).describe("Email body"),
-    }),
+      subject: z.string().min(1).optional().describe("Email subject"),
+      body: z.string().min(1).optional().describe("Email body"),
+      template: z.string().min(1).optional().describe("Private reply template name, or 'auto' to pick by rating"),
+      preview: z.boolean().optional().describe("Render the template without sending"),
+      force: forceOption,
+      stage: stageOption,
+    }).refine(
+      (data) => data.template !== undefined
+        ? data.subject === undefined && data.body === undefined
+        : data.subject !== undefined && data.body !== undefined,
+      { message: "Provide --subject and --body, or --template (not both)" }
+    ),
     async (args, client: JudgemeClient) => {
-      const { reviewId, subject, body } = args as {
+      const { reviewId, subject, body, template, preview, force, stage } = args as {
         reviewId: number;
-        subject: string;
-        body: string;
+        subject?: string;
+        body?: string;
+        template?: string;
+        preview?: boolean;
+        force?: boolean;
+        stage?: boolean;
       };
-      return client.sendPrivateReply(reviewId, subject, body);
+      if (template === undefined) {
+        const { result } = await sendOrStage(client, stage, {
+          kind: "private-reply", reviewId, subject: subject!, body: body!, force,
+        });
+        return result;
+      }
+
+      const rendered = await client.renderReplyTemplate(reviewId, { template, kind: "private" });
+      const { staged, result } = preview
+        ? { staged: false, result: undefined }
+        : await sendOrStage(client, stage, {
+          kind: "private-reply", reviewId, subject: rendered.subject!, body: rendered.body, force,
+        });
+      return buildSafeOutput(
+        {
+          command: "private-reply",
+          reviewId,
+          template: rendered.template,
+          sent: !preview && !staged,
+          staged,
+          warnings: rendered.warnings,
+          result,
+        },
+        {
+          subject: wrapUntrustedField("rendered.subject", rendered.subject, { maxChars: 500 }),
+          body: wrapUntrustedField("rendered.body", rendered.body, { maxChars: 8000 }),
+        }
+      );
+    },
+    "Send private email reply to reviewer (raw text or rendered template)"
+  ),
+
+  "list-templates": command(
+    z.object({}),
+    async (_args, client: JudgemeClient) => ({
+      templates: client.listReplyTemplates().map(t => ({
+        name: t.name,
+        kind: t.kind,
+        ratings: t.minRating === t.maxRating ? `${t.minRating}` : `${t.minRating}-${t.maxRating}`,
+        subject: t.subject,
+        body: t.body,
+      })),
+    }),
+    "List reply templates and their rating bands"
+  ),
+
+  // Approval queue commands
+  "pending-actions": command(
+    z.object({
+      status: z.enum(["pending", "approved", "rejected", "executed", "failed"]).optional()
+        .describe("Only actions in this state (default: all)"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { status } = args as { status?: "pending" | "approved" | "rejected" | "executed" | "failed" };
+      const actions = client.listPendingActions(status);
+      return buildSafeOutput(
+        { command: "pending-actions", stagedMode: client.isStagedMode(), count: actions.length },
+        { actions: actions.map(wrapQueuedAction) }
+      );
     },
-    "Send private email reply to reviewer"
+    "List queued outbound actions and their approval history"
+  ),
+
+  "approve": command(
+    z.object({
+      id: z.string().min(1).describe("Pending action ID (or pass it first: approve <id>)"),
+      by: z.string().min(1).optional().describe("Approver name (default: current OS user)"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { id, by } = args as { id: string; by?: string };
+      const action = await client.approveAction(id, by);
+      const exitCode = failedExitCode([action]);
+      if (exitCode !== undefined) process.exitCode = exitCode;
+      return buildSafeOutput({ command: "approve" }, { action: wrapQueuedAction(action) });
+    },
+    "Approve and execute a pending action"
+  ),
+
+  "reject": command(
+    z.object({
+      id: z.string().min(1).describe("Pending action ID (or pass it first: reject <id>)"),
+      by: z.string().min(1).optional().describe("Reviewer name (default: current OS user)"),
+      reason: z.string().optional().describe("Why the action was rejected"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { id, by, reason } = args as { id: string; by?: string; reason?: string };
+      const action = client.rejectAction(id, by, reason);
+      return buildSafeOutput({ command: "reject" }, { action: wrapQueuedAction(action) });
+    },
+    "Discard a pending action without executing it"
+  ),
+
+  "approve-all": command(
+    z.object({
+      by: z.string().min(1).optional().describe("Approver name (default: current OS user)"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { by } = args as { by?: string };
+      const actions = await client.approveAllActions(by);
+      const exitCode = failedExitCode(actions);
+      if (exitCode !== undefined) process.exitCode = exitCode;
+      return buildSafeOutput(
+        {
+          command: "approve-all",
+          count: actions.length,
+          executed: actions.filter(a => a.status === "executed").length,
+          failed: actions.filter(a => a.status === "failed").length,
+        },
+        { actions: actions.map(wrapQueuedAction) }
+      );
+    },
+    "Approve and execute every pending action"
+  ),
+
+  "audit-log": command(
+    z.object({
+      since: z.string().optional().describe("Entries on/after: ISO date or duration like 7d, 24h"),
+      until: z.string().optional().describe("Entries on/before: ISO date or duration like 7d, 24h"),
+      reviewId: cliTypes.int(1).optional().describe("Only entries for this review"),
+      action: z.enum(["curate", "reply", "private-reply", "create"]).optional().describe("Only this action type"),
+      status: z.enum(["success", "error"]).optional().describe("Only successful or failed calls"),
+      limit: cliTypes.int(1).optional().describe("Newest N entries"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { since, until, reviewId, action, status, limit } = args as {
+        since?: string; until?: string; reviewId?: number;
+        action?: "curate" | "reply" | "private-reply" | "create"; status?: "success" | "error"; limit?: number;
+      };
+      const entries = client.queryAuditLog({
+        since: since !== undefined ? resolveDateFilter(since) : undefined,
+        until: until !== undefined ? resolveDateFilter(until) : undefined,
+        reviewId,
+        action,
+        status,
+        limit,
+      });
+
+      return buildSafeOutput(
+        { command: "audit-log", count: entries.length },
+        {
+          entries: entries.map(({ subject, replyText, ...entry }) => ({
+            metadata: entry,
+            content: {
+              subject: subject !== undefined ? wrapUntrustedField("subject", subject, { maxChars: 500 }) : undefined,
+              replyText: replyText !== undefined
+                ? wrapUntrustedField("replyText", replyText, { maxChars: 8000 })
+                : undefined,
+            },
+          })),
+        }
+      );
+    },
+    "Query the local audit log of curation, reply and review creation calls"
   ),
 
   // Reviewer commands
-  "get-reviewer": createCommand(
+  "get-reviewer": command(
     z.object({
       id: cliTypes.int(1).optional().describe("Reviewer ID"),
       email: z.string().email().optional().describe("Reviewer email"),
@@ -216,35 +767,107 @@ const commands = {
     "Get reviewer info by ID or email"
   ),
 
+  "reviewer-profile": command(
+    z.object({
+      id: cliTypes.int(1).optional().describe("Reviewer ID"),
+      email: z.string().email().optional().describe("Reviewer email"),
+      redactPii: z.boolean().optional().describe("Leave out name, email and phone, and mask them in review and reply text"),
+      source: sourceOption,
+      maxPages: cliTypes.int(1).optional().describe("API pages to scan for their reviews (default: 10)"),
+    }).refine(
+      (data) => data.id !== undefined || data.email !== undefined,
+      { message: "Either --id or --email is required" }
+    ),
+    async (args, client: JudgemeClient) => {
+      const { id, email, redactPii, source, maxPages } = args as {
+        id?: number; email?: string; redactPii?: boolean; source: "local" | "api"; maxPages?: number;
+      };
+      const profile = await client.getReviewerProfile({ id, email }, { source, maxPages });
+      const { reviewer } = profile;
+      const pii = (field: string, value: string | null | undefined) =>
+        redactPii ? "[redacted]" : wrapUntrustedField(field, value, { maxChars: 200 });
+      // Reviews and templated replies often repeat the name; mask what we know
+      const scrub = <T extends string | null | undefined>(text: T): T =>
+        redactPii ? maskKnownPii(text, reviewer) : text;
+
+      return buildSafeOutput(
+        {
+          command: "reviewer-profile",
+          dataSource: source,
+          id: reviewer.id,
+          accepts_marketing: reviewer.accepts_marketing,
+          unsubscribed_at: reviewer.unsubscribed_at,
+          ...profile.stats,
+          privateReplyCount: profile.privateReplies.filter(e => e.status === "success").length,
+          complete: profile.complete,
+          ...(profile.complete ? {} : { note: "Only recent API pages were scanned; use --max-pages or --source local" }),
+        },
+        {
+          name: pii("name", reviewer.name),
+          email: pii("email", reviewer.email),
+          phone: pii("phone", reviewer.phone),
+          reviews: profile.reviews.map(r => {
+            const { metadata, content } = wrapReview({ ...r, title: scrub(r.title), body: scrub(r.body) });
+            const { reviewerName: _name, reviewerEmail: _email, ...rest } = content;
+            return {
+              metadata: {
+                ...metadata,
+                product_external_id: r.product_external_id,
+                replied_at: r.reply?.created_at ?? null,
+              },
+              content: {
+                // Already shown once at the top level
+                ...rest,
+                reply: r.reply?.body ? wrapUntrustedField("reply", scrub(r.reply.body), { maxChars: 8000 }) : undefined,
+              },
+            };
+          }),
+          privateReplies: profile.privateReplies.map(({ subject, replyText, ...entry }) => ({
+            metadata: entry,
+            content: {
+              subject: subject !== undefined ? wrapUntrustedField("subject", scrub(subject), { maxChars: 500 }) : undefined,
+              replyText: replyText !== undefined
+                ? wrapUntrustedField("replyText", scrub(replyText), { maxChars: 8000 })
+                : undefined,
+            },
+          })),
+        }
+      );
+    },
+    "Reviewer record with their review history and private replies"
+  ),
+
   // Shop commands
-  "shop-info": createCommand(
+  "shop-info": command(
     z.object({}),
     async (_args, client: JudgemeClient) => client.getShopInfo(),
     "Get shop information and statistics"
   ),
 
   // Product commands
-  "list-products": createCommand(
+  "list-products": command(
     z.object({
       page: cliTypes.int(1).optional().describe("Page number"),
       perPage: cliTypes.int(1, 100).optional().describe("Results per page (max 100)"),
+      ...streamOptions,
     }),
     async (args, client: JudgemeClient) => {
-      const { page, perPage } = args as { page?: number; perPage?: number };
+      const { page, perPage, all, limit, concurrency } = args as {
+        page?: number; perPage?: number; all?: boolean; limit?: number; concurrency?: number;
+      };
+
+      if (all || limit !== undefined) {
+        const streamed = await streamNdjson(
+          client.iterateProducts({ maxItems: limit, concurrency }),
+          wrapProduct
+        );
+        return { command: "list-products", format: "ndjson", streamed };
+      }
+
       const result: any = await client.listProducts({ page, perPage });
 
       const products = (result?.products || result?.data || []);
-      const wrappedProducts = (Array.isArray(products) ? products : []).map((p: any) => ({
-        metadata: {
-          id: p.id,
-          external_id: p.external_id,
-          reviews_count: p.reviews_count,
-          average_rating: p.average_rating,
-        },
-        content: {
-          title: wrapUntrustedField("title", p.name || p.title, { maxChars: 500 }),
-        },
-      }));
+      const wrappedProducts = (Array.isArray(products) ? products : []).map(wrapProduct);
 
       return buildSafeOutput(
         { command: "list-products", count: wrappedProducts.length },
@@ -254,38 +877,574 @@ const commands = {
     "List products with reviews"
   ),
 
-  "lookup-product": createCommand(
+  "lookup-product": command(
     z.object({
-      shopifyId: cliTypes.int(1).describe("Shopify product ID"),
+      shopifyId: cliTypes.int(1).optional().describe("Shopify product ID"),
+      handle: z.string().optional().describe("Product handle (URL slug)"),
+      title: z.string().optional().describe("Fuzzy product title match"),
+      limit: cliTypes.int(1, 50).optional().describe("Maximum title matches (default: 5)"),
     }),
     async (args, client: JudgemeClient) => {
-      const { shopifyId } = args as { shopifyId: number };
-      const product: any = await client.getProductByExternalId(shopifyId);
+      const { shopifyId, handle, title, limit } = args as {
+        shopifyId?: number;
+        handle?: string;
+        title?: string;
+        limit?: number;
+      };
+      if ([shopifyId, handle, title].filter(v => v !== undefined).length !== 1) {
+        throw new Error("Pass exactly one of --shopify-id, --handle or --title");
+      }
+
+      if (title !== undefined) {
+        const matches = await client.searchProducts(title, limit);
+        return buildSafeOutput(
+          { command: "lookup-product", count: matches.length },
+          {
+            matches: matches.map(m => ({
+              metadata: {
+                id: m.product.id,
+                external_id: m.product.externalId,
+                reviews_count: m.product.reviewsCount,
+                average_rating: m.product.averageRating,
+                score: m.score,
+              },
+              content: {
+                title: wrapUntrustedField("title", m.product.title, { maxChars: 500 }),
+                handle: wrapUntrustedField("handle", m.product.handle, { maxChars: 200 }),
+              },
+            })),
+          }
+        );
+      }
+
+      const ref = shopifyId !== undefined ? { externalId: shopifyId } : { handle: handle! };
+      const product = await client.findProduct(ref);
       if (!product) {
-        throw new Error("Product not found");
+        throw new JudgemeNotFoundError(
+          shopifyId !== undefined
+            ? `No Judge.me product found for Shopify product ID ${shopifyId}`
+            : `No Judge.me product found with handle "${handle}"`,
+          { suggestion: "Try lookup-product --title to search by name." }
+        );
       }
 
-      const p = product;
       return buildSafeOutput(
         {
           command: "lookup-product",
-          id: p.id,
-          external_id: p.external_id,
-          reviews_count: p.reviews_count,
-          average_rating: p.average_rating,
+          id: product.id,
+          external_id: product.externalId,
+          reviews_count: product.reviewsCount,
+          average_rating: product.averageRating,
         },
         {
-          title: wrapUntrustedField("title", p.name || p.title, { maxChars: 500 }),
+          title: wrapUntrustedField("title", product.title, { maxChars: 500 }),
+          handle: wrapUntrustedField("handle", product.handle, { maxChars: 200 }),
         }
       );
     },
-    "Look up a product by Shopify product ID"
+    "Look up a product by Shopify product ID, handle or fuzzy title"
+  ),
+
+  // Analytics
+  "analytics": command(
+    z.object({
+      createdAfter: z.string().optional().describe("Range start: ISO date or duration like 30d (default: 90d)"),
+      createdBefore: z.string().optional().describe("Range end: ISO date or duration (default: now)"),
+      bucket: z.enum(["week", "month"]).default("week").describe("Trend granularity"),
+      productId: cliTypes.int(1).optional().describe("Shopify product ID to report on"),
+      maxPages: cliTypes.int(1).optional().describe("API page cap for the scan (default: no cap)"),
+      table: z.boolean().default(true).describe("Also print a compact table on stderr"),
+      source: sourceOption,
+    }),
+    crossStore(async (args, client: JudgemeClient) => {
+      const { createdAfter, createdBefore, bucket, productId, maxPages, table, source } = args as {
+        createdAfter?: string; createdBefore?: string; bucket: "week" | "month";
+        productId?: number; maxPages?: number; table: boolean; source: "local" | "api";
+      };
+      const options = { createdAfter, createdBefore, bucket, shopifyProductId: productId, maxPages, source };
+
+      if (client.isAllStores()) {
+        const { stores, total } = await client.getAnalyticsAcrossStores(options);
+        if (table) {
+          for (const { store, report } of stores) process.stderr.write(`== ${store} ==\n${formatAnalyticsTable(report)}`);
+          process.stderr.write(`== total ==\n${formatAnalyticsTable(total)}`);
+        }
+        const { products, ...summary } = total;
+        return buildSafeOutput(
+          {
+            command: "analytics",
+            dataSource: source,
+            // Per-store figures without product titles, which are untrusted
+            stores: stores.map(({ store, report: { products: storeProducts, ...storeSummary } }) => ({
+              store,
+              ...storeSummary,
+              products: storeProducts.map(({ productTitle, ...stats }) => stats),
+            })),
+            ...summary,
+          },
+          { products: wrapAnalyticsProducts(products) }
+        );
+      }
+
+      const report = await client.getAnalytics(options);
+
+      // Table on stderr keeps stdout a single JSON document
+      if (table) process.stderr.write(formatAnalyticsTable(report));
+
+      const { products, ...summary } = report;
+      return buildSafeOutput(
+        { command: "analytics", dataSource: source, ...summary },
+        { products: wrapAnalyticsProducts(products) }
+      );
+    }),
+    "Rating distribution, trends, velocity and reply stats by product"
+  ),
+
+  // Sentiment and topics
+  "analyze-reviews": command(
+    z.object({
+      productId: cliTypes.int(1).optional().describe("Shopify product ID to analyze"),
+      rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      limit: cliTypes.int(1).optional().describe("Analyze at most N reviews (default: 100)"),
+      summaryOnly: z.boolean().optional().describe("Only return sentiment and topic totals"),
+      source: sourceOption,
+    }),
+    async (args, client: JudgemeClient) => {
+      const { productId, limit, summaryOnly, source } = args as {
+        productId?: number; limit?: number; summaryOnly?: boolean; source: "local" | "api";
+      };
+      const analysis = await client.analyzeReviews({
+        shopifyProductId: productId,
+        maxItems: limit ?? 100,
+        source,
+        ...pickFilters(args),
+      });
+
+      return buildSafeOutput(
+        {
+          command: "analyze-reviews",
+          dataSource: source,
+          count: analysis.reviews.length,
+          sentiment: analysis.sentiment,
+          topics: analysis.topics,
+        },
+        { reviews: summaryOnly ? [] : analysis.reviews.map(({ review, tags }) => wrapReview(review, tags)) }
+      );
+    },
+    "Tag reviews with sentiment and topics (local classifier)"
+  ),
+
+  "topics": command(
+    z.object({
+      productId: cliTypes.int(1).optional().describe("Shopify product ID to summarize"),
+      rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      limit: cliTypes.int(1).optional().describe("Summarize at most N reviews"),
+      source: sourceOption,
+    }),
+    async (args, client: JudgemeClient) => {
+      const { productId, limit, source } = args as { productId?: number; limit?: number; source: "local" | "api" };
+      const products = await client.getTopicSummary({
+        shopifyProductId: productId,
+        maxItems: limit,
+        source,
+        ...pickFilters(args),
+      });
+
+      return buildSafeOutput(
+        { command: "topics", dataSource: source, count: products.length },
+        {
+          products: products.map(({ productTitle, ...summary }) => ({
+            metadata: summary,
+            content: { title: wrapUntrustedField("title", productTitle, { maxChars: 500 }) },
+          })),
+        }
+      );
+    },
+    "Per-product topic summary with average rating and negative mentions"
+  ),
+
+  // Spam
+  "spam-scan": command(
+    z.object({
+      productId: cliTypes.int(1).optional().describe("Shopify product ID to scan"),
+      rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      limit: cliTypes.int(1).optional().describe("Reviews to scan (default: 1000)"),
+      minScore: z.coerce.number().min(0).max(1).optional().describe("Lowest score to report, 0-1 (default: 0.3)"),
+      includeCurated: z.boolean().optional().describe("Also report reviews already curated as spam"),
+      out: z.string().optional().describe("Write candidate IDs (one per line) for bulk-curate --file"),
+      source: sourceOption,
+    }),
+    async (args, client: JudgemeClient) => {
+      const { productId, limit, minScore, includeCurated, out, source } = args as {
+        productId?: number; limit?: number; minScore?: number; includeCurated?: boolean;
+        out?: string; source: "local" | "api";
+      };
+      const { scanned, candidates } = await client.scanForSpam({
+        shopifyProductId: productId,
+        maxItems: limit,
+        minScore,
+        includeCurated,
+        source,
+        ...pickFilters(args),
+      });
+
+      const ids = candidates.map(c => c.review.id);
+      if (out) writeFileSync(out, ids.length > 0 ? `${ids.join("\n")}\n` : "", "utf-8");
+
+      return buildSafeOutput(
+        {
+          command: "spam-scan",
+          dataSource: source,
+          scanned,
+          count: candidates.length,
+          idsFile: out,
+          next: ids.length > 0
+            ? `bulk-curate --dry-run --status spam ${out ? `--file ${out}` : `--ids ${ids.join(",")}`}`
+            : undefined,
+        },
+        {
+          candidates: candidates.map(({ review, score, reasons }) => {
+            const wrapped = wrapReview(review);
+            return { ...wrapped, metadata: { ...wrapped.metadata, score, reasons } };
+          }),
+        }
+      );
+    },
+    "Score reviews for spam/fake signals; output feeds bulk-curate --dry-run"
+  ),
+
+  // Prompt-injection scan
+  "scan-injection": command(
+    z.object({
+      productId: cliTypes.int(1).optional().describe("Shopify product ID to scan"),
+      rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      limit: cliTypes.int(1).optional().describe("Reviews to scan (default: all)"),
+      skipProducts: z.boolean().optional().describe("Don't scan product titles and handles"),
+      queue: z.boolean().optional().describe("Stage flagged reviews for curation (spam) in the approval queue"),
+      source: sourceOption,
+    }),
+    async (args, client: JudgemeClient) => {
+      const { productId, limit, skipProducts, queue, source } = args as {
+        productId?: number; limit?: number; skipProducts?: boolean; queue?: boolean; source: "local" | "api";
+      };
+      const result = await client.scanForInjection({
+        shopifyProductId: productId,
+        maxItems: limit,
+        includeProducts: !skipProducts,
+        queue,
+        source,
+        // Shared detector verdict, so its flags are explained alongside ours
+        detector: flaggedByWrapper,
+        ...pickFilters(args),
+      });
+
+      // Pattern IDs are ours and safe as metadata; excerpts are review text
+      const wrapFindings = (findings: typeof result.reviews[number]["findings"]) => ({
+        metadata: findings.map(f => ({ field: f.field, patterns: f.matches.map(m => m.id) })),
+        excerpts: findings.flatMap(f => f.matches
+          .filter(m => m.excerpt)
+          .map(m => ({
+            field: f.field,
+            pattern: m.id,
+            excerpt: wrapUntrustedField(`${f.field}.excerpt`, m.excerpt, { maxChars: 500 }),
+          }))),
+      });
+
+      return buildSafeOutput(
+        {
+          command: "scan-injection",
+          dataSource: source,
+          scanned: result.scanned,
+          flaggedReviews: result.reviews.length,
+          flaggedProducts: result.products.length,
+          queued: result.queued,
+        },
+        {
+          reviews: result.reviews.map(({ review, findings }) => {
+            const wrapped = wrapReview(review);
+            const { metadata, excerpts } = wrapFindings(findings);
+            return {
+              ...wrapped,
+              metadata: { ...wrapped.metadata, findings: metadata },
+              content: { ...wrapped.content, excerpts },
+            };
+          }),
+          products: result.products.map(({ product, findings }) => {
+            const { metadata, excerpts } = wrapFindings(findings);
+            return {
+              metadata: { id: product.id, external_id: product.externalId, findings: metadata },
+              content: {
+                title: wrapUntrustedField("title", product.title, { maxChars: 500 }),
+                excerpts,
+              },
+            };
+          }),
+        }
+      );
+    },
+    "Scan reviews, reviewer names and product titles for prompt-injection patterns"
+  ),
+
+  // Export
+  "export": command(
+    z.object({
+      format: z.enum(["csv", "jsonl", "google-xml"]).describe("Output format"),
+      out: z.string().describe("Output file path"),
+      productId: cliTypes.int(1).optional().describe("Shopify product ID to export"),
+      rating: cliTypes.int(1, 5).optional().describe("Filter by star rating (1-5)"),
+      ...reviewFilterOptions,
+      limit: cliTypes.int(1).optional().describe("Stop after N reviews"),
+      concurrency: cliTypes.int(1, 5).optional().describe("Pages fetched in parallel (default: 1)"),
+      includeEmails: z.boolean().optional().describe("Keep reviewer emails (CSV/JSONL only)"),
+      source: sourceOption,
+    }),
+    async (args, client: JudgemeClient) => {
+      const { format, out, productId, limit, concurrency, includeEmails, source } = args as {
+        format: "csv" | "jsonl" | "google-xml"; out: string; productId?: number; limit?: number;
+        concurrency?: number; includeEmails?: boolean; source: "local" | "api";
+      };
+      const result = await client.exportReviews(out, {
+        format,
+        includeEmails,
+        source,
+        shopifyProductId: productId,
+        maxItems: limit,
+        concurrency,
+        ...pickFilters(args),
+      });
+      return { command: "export", dataSource: source, ...result };
+    },
+    "Export reviews to CSV, JSONL or Google Product Reviews XML"
+  ),
+
+  // Import
+  "import-reviews": command(
+    z.object({
+      file: z.string().describe("CSV file to import"),
+      platform: z.enum(["csv", "yotpo", "stamped", "okendo"]).default("csv").describe("Column layout of the file"),
+      map: z.string().optional().describe("Column overrides: field=column,... (fields: productId, rating, title, body, name, email, createdAt, pictureUrls)"),
+      dryRun: z.boolean().optional().describe("Validate every row without creating reviews"),
+      restart: z.boolean().optional().describe("Ignore saved progress and start from the first row"),
+      errors: z.string().optional().describe("Error file (default: <file>.errors.jsonl)"),
+      limit: cliTypes.int(1).optional().describe("Handle at most N rows this run"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { file, platform, map, dryRun, restart, errors, limit } = args as {
+        file: string; platform: "csv" | "yotpo" | "stamped" | "okendo"; map?: string;
+        dryRun?: boolean; restart?: boolean; errors?: string; limit?: number;
+      };
+      const result = await client.importReviews(file, {
+        platform,
+        columns: parseColumnOverrides(map),
+        dryRun,
+        restart,
+        errorsPath: errors,
+        limit,
+      });
+      return { command: "import-reviews", ...result };
+    },
+    "Import reviews from CSV or Yotpo/Stamped/Okendo exports"
+  ),
+
+  // Alerts
+  "alerts-check": command(
+    z.object({
+      rules: z.string().optional().describe("Rules file (default: alert-rules.json beside config.json)"),
+      since: z.string().optional().describe("First-run lookback: ISO date or duration (default: 24h)"),
+      webhook: z.string().url().optional().describe("POST hits to this URL (overrides the rules file)"),
+      dryRun: z.boolean().optional().describe("Evaluate without sending the webhook or moving the watermark"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { rules, since, webhook, dryRun } = args as {
+        rules?: string; since?: string; webhook?: string; dryRun?: boolean;
+      };
+      const result = await client.checkAlerts({ rulesPath: rules, since, webhookUrl: webhook, dryRun });
+
+      const { hits, ...summary } = result;
+      return buildSafeOutput(
+        { command: "alerts-check", ...summary, count: hits.length },
+        {
+          hits: hits.map(hit => {
+            if (hit.type === "average") return { metadata: hit };
+            const { title, body, snippet, productTitle, ...metadata } = hit;
+            return {
+              metadata,
+              content: {
+                productTitle: wrapUntrustedField("productTitle", productTitle, { maxChars: 500 }),
+                title: wrapUntrustedField("title", title, { maxChars: 500 }),
+                body: wrapUntrustedField("body", body, { maxChars: 500 }),
+                ...(snippet !== undefined ? { snippet: wrapUntrustedField("snippet", snippet, { maxChars: 500 }) } : {}),
+              },
+            };
+          }),
+        }
+      );
+    },
+    "Check alert rules against new reviews and report only new hits"
+  ),
+
+  // Mirror commands
+  "sync": command(
+    z.object({
+      full: z.boolean().optional().describe("Re-fetch every review instead of only changes since the last sync"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { full } = args as { full?: boolean };
+      return client.syncMirror({ full });
+    },
+    "Sync reviews, reviewers and products into the local mirror"
+  ),
+
+  "mirror-stats": command(
+    z.object({}),
+    async (_args, client: JudgemeClient) => client.getMirror().getStats(),
+    "Show local mirror row counts and sync watermarks"
+  ),
+
+  // Configuration
+  "config-validate": command(
+    z.object({}),
+    crossStore(async (_args, client: JudgemeClient) => {
+      const stores = client.isAllStores() ? client.listStores() : [client.getStoreName()];
+      const checks: CredentialCheck[] = [];
+      for (const name of stores) checks.push(await client.forStore(name).validateCredentials());
+
+      const ok = checks.every(c => c.ok);
+      if (!ok) process.exitCode = EXIT_CODES.AUTH;
+      return buildSafeOutput(
+        {
+          command: "config-validate",
+          ok,
+          stores: checks.map(({ tokens, ...check }) => ({
+            ...check,
+            tokens: {
+              public: { status: tokens.public.status, source: tokens.public.source },
+              private: { status: tokens.private.status, source: tokens.private.source },
+            },
+          })),
+        },
+        {
+          // Failure messages quote Judge.me's response body
+          errors: checks.flatMap(c => (["public", "private"] as const)
+            .filter(kind => c.tokens[kind].message)
+            .map(kind => ({
+              metadata: { store: c.store, token: kind },
+              content: { message: wrapUntrustedField("message", c.tokens[kind].message, { maxChars: 1000 }) },
+            }))),
+        }
+      );
+    }),
+    "Check where credentials come from and that both tokens work (one harmless read each)"
+  ),
+
+  // Webhooks
+  "webhook-serve": command(
+    z.object({
+      port: cliTypes.int(0, 65535).default(8787).describe("Port to listen on (0 = any free port)"),
+      host: z.string().default("127.0.0.1").describe("Interface to bind; put a TLS proxy in front for Judge.me"),
+      path: z.string().startsWith("/").default("/webhooks/judgeme").describe("Webhook endpoint path"),
+      record: z.string().optional().describe("Also append each verified delivery to this JSONL file, for replay"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { port, host, path, record } = args as { port: number; host: string; path: string; record?: string };
+      let received = 0;
+      const receiver = await client.startWebhookServer({
+        port, host, path, record,
+        log: line => process.stderr.write(`[webhook] ${line}\n`),
+        onEvent: event => {
+          received++;
+          process.stdout.write(`${JSON.stringify(wrapWebhookEvent(event, client))}\n`);
+        },
+      });
+      process.stderr.write(`[webhook] listening on ${receiver.url} (Ctrl+C to stop)\n`);
+
+      // Runs until interrupted; the summary follows the NDJSON stream
+      await new Promise<void>(resolve => {
+        process.once("SIGINT", () => resolve());
+        process.once("SIGTERM", () => resolve());
+      });
+      await receiver.close();
+      return { command: "webhook-serve", url: receiver.url, received };
+    },
+    "Receive Judge.me review webhooks, verify signatures and queue events"
+  ),
+
+  "webhook-events": command(
+    z.object({
+      consumer: z.string().min(1).optional().describe("Only events this consumer hasn't acknowledged"),
+      limit: cliTypes.int(1).optional().describe("Return at most N events"),
+      ack: z.boolean().optional().describe("Mark the returned events as consumed (needs --consumer)"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { consumer, limit, ack } = args as { consumer?: string; limit?: number; ack?: boolean };
+      const events = client.readWebhookEvents({ consumer, limit, ack });
+      return buildSafeOutput(
+        { command: "webhook-events", consumer, count: events.length, acknowledged: Boolean(ack) && events.length > 0 },
+        { events: events.map(e => wrapWebhookEvent(e, client)) }
+      );
+    },
+    "List queued webhook events, optionally consuming them"
+  ),
+
+  "webhook-replay": command(
+    z.object({
+      file: z.string().describe("Recorded deliveries (JSONL of {topic, headers, body})"),
+      url: z.string().url().optional().describe("Receiver endpoint (default: http://127.0.0.1:8787/webhooks/judgeme)"),
+      sign: z.boolean().optional().describe("Re-sign each body with this store's webhook secret"),
+    }),
+    async (args, client: JudgemeClient) => {
+      const { file, url, sign } = args as { file: string; url?: string; sign?: boolean };
+      const results = await client.replayWebhooks(file, { url, sign });
+      return {
+        command: "webhook-replay",
+        sent: results.length,
+        accepted: results.filter(r => r.ok).length,
+        // Receiver answers are our own JSON; no review content
+        results: results.map(({ index, status, ok, error }) => ({ index, status, ok, error })),
+      };
+    },
+    "Replay recorded webhook deliveries against a running receiver"
   ),
 
   // Pre-built cache commands
   ...cacheCommands<JudgemeClient>(),
 };
 
+// --store applies to every command, so take it out before runCli parses
+// the command's own options; the client reads it from JUDGEME_STORE
+const storeFlag = process.argv.findIndex(arg => arg === "--store" || arg.startsWith("--store="));
+if (storeFlag !== -1) {
+  const [flag] = process.argv.splice(storeFlag, 1);
+  const store = flag.includes("=") ? flag.slice("--store=".length) : process.argv.splice(storeFlag, 1)[0];
+  if (!store || store.startsWith("--")) {
+    console.error("--store needs a store name, or 'all' for count-reviews, analytics and config-validate");
+    process.exit(1);
+  }
+  process.env.JUDGEME_STORE = store;
+}
+
+// `config validate`, `alerts check` and `webhook serve` read naturally; commands are single words.
+// `<group> list` is the group's own command (`pending-actions list` = `pending-actions`)
+const commandGroups: Record<string, string[]> = {
+  alerts: ["check"],
+  config: ["validate"],
+  "pending-actions": ["list"],
+  webhook: ["serve", "events", "replay"],
+};
+if (commandGroups[process.argv[2]]?.includes(process.argv[3])) {
+  const [group, sub] = process.argv.slice(2, 4);
+  process.argv.splice(2, 2, sub === "list" ? group : `${group}-${sub}`);
+}
+
+// `approve <id>` and `reject <id>` take the action ID without --id
+if (["approve", "reject"].includes(process.argv[2]) && process.argv[3] && !process.argv[3].startsWith("-")) {
+  process.argv.splice(3, 0, "--id");
+}
+
 // Run CLI
 runCli(commands, JudgemeClient, {
   programName: "judgeme-cli",
@@ -0,0 +1,119 @@
+/**
+ * Credential Resolution
+ *
+ * Judge.me tokens can come from three places, highest priority first:
+ *
+ *   1. Environment variables: JUDGEME_SHOP_DOMAIN, JUDGEME_PUBLIC_API_TOKEN,
+ *      JUDGEME_PRIVATE_API_TOKEN, JUDGEME_WEBHOOK_SECRET. With store profiles the names carry the
+ *      store, e.g. JUDGEME_EU_PRIVATE_API_TOKEN for store "eu"; the
+ *      unprefixed names are then ignored so one token can't reach every shop.
+ *   2. A secrets file (default: secrets.json beside config.json) with the
+ *      same shape as the judgeme block: top-level values, overridden per
+ *      store under "stores". It must not be readable by group or others.
+ *   3. config.json itself, kept working for existing setups.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+
+export interface Credentials {
+  shopDomain?: string;
+  publicApiToken?: string;
+  privateApiToken?: string;
+  webhookSecret?: string;   // Signs incoming webhooks (default: the private token)
+}
+
+export type CredentialSource = 'env' | 'secrets-file' | 'config';
+
+export interface ResolvedCredentials {
+  values: Credentials;
+  sources: Partial<Record<keyof Credentials, CredentialSource>>;
+  secretsFile?: string;     // Set when the secrets file was read
+}
+
+interface SecretsFile extends Credentials {
+  stores?: Record<string, Credentials>;
+}
+
+const CREDENTIAL_KEYS: Array<[keyof Credentials, string]> = [
+  ['shopDomain', 'SHOP_DOMAIN'],
+  ['publicApiToken', 'PUBLIC_API_TOKEN'],
+  ['privateApiToken', 'PRIVATE_API_TOKEN'],
+  ['webhookSecret', 'WEBHOOK_SECRET'],
+];
+
+/** Environment variable holding `key`, e.g. JUDGEME_EU_PRIVATE_API_TOKEN for store "eu". */
+export function credentialEnvName(key: keyof Credentials, store?: string): string {
+  const suffix = CREDENTIAL_KEYS.find(([k]) => k === key)![1];
+  const prefix = store ? `JUDGEME_${store.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_` : 'JUDGEME_';
+  return `${prefix}${suffix}`;
+}
+
+/**
+ * Describes a file's group/other permission bits, or null when only the
+ * owner can access it. Always null on Windows, which has no mode bits.
+ */
+export function loosePermissions(path: string): string | null {
+  if (process.platform === 'win32') return null;
+  const mode = statSync(path).mode & 0o777;
+  return mode & 0o077 ? mode.toString(8).padStart(4, '0') : null;
+}
+
+/** Reads the secrets file, refusing one that other users can read. Missing files read as null. */
+export function loadSecretsFile(path: string): SecretsFile | null {
+  if (!existsSync(path)) return null;
+
+  const mode = loosePermissions(path);
+  if (mode) {
+    throw new Error(`Refusing to read ${path}: permissions ${mode} let other users read it (run: chmod 600 ${path})`);
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as SecretsFile;
+  } catch {
+    // Don't echo the parser message; it can quote the file's contents
+    throw new Error(`Invalid secrets file ${path}: not valid JSON`);
+  }
+}
+
+/**
+ * Merges credentials from env, the secrets file and config.json.
+ *
+ * @param configured - Values from config.json (already merged for the store)
+ * @param options.store - Store profile name; omit when there are no profiles
+ * @param options.secretsFile - Path of the secrets file to consult
+ */
+export function resolveCredentials(
+  configured: Credentials,
+  options: { store?: string; secretsFile: string }
+): ResolvedCredentials {
+  const secrets = loadSecretsFile(options.secretsFile);
+  const fromFile: Credentials = {
+    ...pickCredentials(secrets ?? {}),
+    ...(options.store ? pickCredentials(secrets?.stores?.[options.store] ?? {}) : {}),
+  };
+
+  const resolved: ResolvedCredentials = { values: {}, sources: {} };
+  if (secrets) resolved.secretsFile = options.secretsFile;
+
+  for (const [key] of CREDENTIAL_KEYS) {
+    const fromEnv = process.env[credentialEnvName(key, options.store)];
+    if (fromEnv) {
+      resolved.values[key] = fromEnv;
+      resolved.sources[key] = 'env';
+    } else if (fromFile[key]) {
+      resolved.values[key] = fromFile[key];
+      resolved.sources[key] = 'secrets-file';
+    } else if (configured[key]) {
+      resolved.values[key] = configured[key];
+      resolved.sources[key] = 'config';
+    }
+  }
+  return resolved;
+}
+
+function pickCredentials(source: Credentials): Credentials {
+  const picked: Credentials = {};
+  for (const [key] of CREDENTIAL_KEYS) {
+    if (typeof source[key] === 'string' && source[key]) picked[key] = source[key];
+  }
+  return picked;
+}
@@ -0,0 +1,72 @@
+/**
+ * Bulk Curation Journal
+ *
+ * Append-only JSONL record of bulk curation batches. A dry run writes a
+ * plan; applying it records each review's previous `curated` value so
+ * the batch can be undone later.
+ */
+
+import { randomBytes } from 'crypto';
+import { appendJsonl, readJsonl } from './local-data.js';
+
+export type CuratedState = 'ok' | 'spam' | null;
+
+export interface CurationPlan {
+  batchId: string;
+  createdAt: string;
+  status: 'ok' | 'spam';
+  selector: Record<string, unknown>;
+  reviews: Array<{ id: number; curated: CuratedState }>;
+  truncated?: boolean;      // More reviews matched than the selection cap allowed
+}
+
+export interface CurationChange {
+  batchId: string;
+  reviewId: number;
+  action: 'apply' | 'undo';
+  previous: CuratedState;
+  status: CuratedState;
+  at: string;
+  error?: string;
+}
+
+type JournalEntry =
+  | ({ type: 'plan' } & CurationPlan)
+  | ({ type: 'change' } & CurationChange);
+
+export class CurationJournal {
+  constructor(private path: string) {}
+
+  /** Records a dry-run plan and returns it with a fresh batch ID. */
+  createPlan(plan: Omit<CurationPlan, 'batchId' | 'createdAt'>): CurationPlan {
+    const batchId = `bc-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+    const entry: CurationPlan = { batchId, createdAt: new Date().toISOString(), ...plan };
+    appendJsonl(this.path, { type: 'plan', ...entry });
+    return entry;
+  }
+
+  getPlan(batchId: string): CurationPlan | null {
+    const entry = this.entries().find(e => e.type === 'plan' && e.batchId === batchId);
+    if (!entry || entry.type !== 'plan') return null;
+    const { type: _type, ...plan } = entry;
+    return plan;
+  }
+
+  recordChange(change: Omit<CurationChange, 'at'>): CurationChange {
+    const entry: CurationChange = { ...change, at: new Date().toISOString() };
+    appendJsonl(this.path, { type: 'change', ...entry });
+    return entry;
+  }
+
+  /** Returns successful changes for a batch, in the order they were made. */
+  getChanges(batchId: string, action?: CurationChange['action']): CurationChange[] {
+    return this.entries()
+      .filter((e): e is { type: 'change' } & CurationChange =>
+        e.type === 'change' && e.batchId === batchId && !e.error && (!action || e.action === action))
+      .map(({ type: _type, ...change }) => change);
+  }
+
+  private entries(): JournalEntry[] {
+    return readJsonl<JournalEntry>(this.path);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Judge.me Error Types
+ *
+ * Typed errors thrown by JudgemeClient so callers (and the agent) can
+ * tell a bad token from a missing review, a rate limit or a timeout.
+ * Each carries a stable code, CLI exit code, the endpoint with tokens
+ * redacted, whether retrying may help, and a suggested fix.
+ */
+
+export type JudgemeErrorCode =
+  | 'AUTH'
+  | 'NOT_FOUND'
+  | 'VALIDATION'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'SERVER'
+  | 'NETWORK'
+  | 'DUPLICATE'
+  | 'BUDGET_EXCEEDED'
+  | 'API'
+  | 'LOCAL_IO';
+
+/** Stable CLI exit codes per error code. 1 stays reserved for unexpected errors. */
+export const EXIT_CODES: Record<JudgemeErrorCode, number> = {
+  AUTH: 10,
+  NOT_FOUND: 11,
+  VALIDATION: 12,
+  RATE_LIMITED: 13,
+  TIMEOUT: 14,
+  SERVER: 15,
+  NETWORK: 16,
+  DUPLICATE: 17,
+  BUDGET_EXCEEDED: 18,
+  API: 19,
+  LOCAL_IO: 20,
+};
+
+export interface JudgemeErrorDetails {
+  status?: number;
+  endpoint?: string;
+  retryable?: boolean;
+  suggestion?: string;
+}
+
+export class JudgemeError extends Error {
+  readonly code: JudgemeErrorCode;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly retryable: boolean;
+  readonly suggestion?: string;
+
+  constructor(code: JudgemeErrorCode, message: string, details: JudgemeErrorDetails = {}) {
+    super(message);
+    this.name = 'JudgemeError';
+    this.code = code;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.retryable = details.retryable ?? false;
+    this.suggestion = details.suggestion;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.code];
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      type: this.name,
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      endpoint: this.endpoint,
+      retryable: this.retryable,
+      suggestion: this.suggestion,
+    };
+  }
+}
+
+export class JudgemeAuthError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('AUTH', message, {
+      suggestion: 'Check shopDomain and the API tokens (env vars, secrets.json or config.json); private endpoints need the private token. Run config-validate.',
+      ...details,
+    });
+    this.name = 'JudgemeAuthError';
+  }
+}
+
+export class JudgemeNotFoundError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('NOT_FOUND', message, {
+      suggestion: 'Check the ID. Review and reviewer IDs are Judge.me IDs; --product-id takes the Shopify product ID.',
+      ...details,
+    });
+    this.name = 'JudgemeNotFoundError';
+  }
+}
+
+export class JudgemeValidationError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('VALIDATION', message, {
+      suggestion: 'Judge.me rejected the request parameters; check the values passed to the command.',
+      ...details,
+    });
+    this.name = 'JudgemeValidationError';
+  }
+}
+
+export class JudgemeRateLimitError extends JudgemeError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: JudgemeErrorDetails & { retryAfterMs?: number } = {}) {
+    const { retryAfterMs, ...rest } = details;
+    super('RATE_LIMITED', message, {
+      retryable: true,
+      suggestion: retryAfterMs !== undefined
+        ? `Wait ${Math.ceil(retryAfterMs / 1000)}s before retrying, or lower throttle.requestsPerSecond in config.json.`
+        : 'Wait a minute before retrying, or lower throttle.requestsPerSecond in config.json.',
+      ...rest,
+    });
+    this.name = 'JudgemeRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), retryAfterMs: this.retryAfterMs };
+  }
+}
+
+export class JudgemeTimeoutError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('TIMEOUT', message, {
+      retryable: true,
+      suggestion: 'Judge.me did not answer in time. Reads can be retried; for replies, check audit-log and the review before resending.',
+      ...details,
+    });
+    this.name = 'JudgemeTimeoutError';
+  }
+}
+
+export class JudgemeServerError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('SERVER', message, {
+      retryable: true,
+      suggestion: 'Judge.me had a server error; retry shortly.',
+      ...details,
+    });
+    this.name = 'JudgemeServerError';
+  }
+}
+
+export class JudgemeNetworkError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('NETWORK', message, {
+      retryable: true,
+      suggestion: 'Could not reach judge.me; check the network connection and retry.',
+      ...details,
+    });
+    this.name = 'JudgemeNetworkError';
+  }
+}
+
+/** A send was refused because it would duplicate an earlier one. */
+export class JudgemeDuplicateError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('DUPLICATE', message, {
+      suggestion: 'Confirm with the user that a second send is intended, then retry with --force.',
+      ...details,
+    });
+    this.name = 'JudgemeDuplicateError';
+  }
+}
+
+export class JudgemeBudgetError extends JudgemeError {
+  constructor(public readonly budget: number) {
+    super('BUDGET_EXCEEDED', `Judge.me request budget of ${budget} requests exhausted for this run`, {
+      suggestion: 'Narrow the command (filters, --limit) or raise throttle.maxRequests in config.json.',
+    });
+    this.name = 'JudgemeBudgetError';
+  }
+}
+
+/** A local file (export, report) couldn't be written; Judge.me wasn't involved. */
+export class JudgemeLocalIoError extends JudgemeError {
+  constructor(message: string, details: JudgemeErrorDetails = {}) {
+    super('LOCAL_IO', message, {
+      suggestion: 'Check that the output directory exists and is writable.',
+      ...details,
+    });
+    this.name = 'JudgemeLocalIoError';
+  }
+}
+
+/** Replaces every occurrence of the given secrets in `text`. */
+export function redactSecrets(text: string, secrets: Array<string | undefined>): string {
+  let result = text;
+  for (const secret of secrets) {
+    if (secret && secret.length >= 4) {
+      result = result.split(secret).join('[REDACTED]');
+    }
+  }
+  return result;
+}
+
+/** Maps a non-2xx Judge.me response to the matching error type. */
+export function errorForResponse(
+  status: number,
+  bodyText: string,
+  details: { endpoint: string; retryAfterMs?: number }
+): JudgemeError {
+  const summary = bodyText.length > 500 ? `${bodyText.slice(0, 500)}…` : bodyText;
+  const message = `Judge.me API error (${status}) on ${details.endpoint}: ${summary}`;
+  const base = { status, endpoint: details.endpoint };
+
+  if (status === 401 || status === 403) return new JudgemeAuthError(message, base);
+  if (status === 404) return new JudgemeNotFoundError(message, base);
+  if (status === 429) return new JudgemeRateLimitError(message, { ...base, retryAfterMs: details.retryAfterMs });
+  if (status === 400 || status === 409 || status === 422) return new JudgemeValidationError(message, base);
+  if (status >= 500) return new JudgemeServerError(message, base);
+  return new JudgemeError('API', message, { ...base, retryable: status === 408 });
+}
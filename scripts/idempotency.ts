@@ -0,0 +1,74 @@
+/**
+ * Idempotency Records for non-idempotent requests
+ *
+ * Each POST is keyed by a hash of method, endpoint and body. If a POST
+ * times out or gets a 5xx we can't know whether Judge.me applied it, so
+ * the key is marked "unknown" and an identical request is refused until
+ * someone checks and resends with force. A 4xx clears the key. Unknown
+ * outcomes are kept for a day; a delivered record only catches an
+ * accidental immediate rerun, so repeat-send policy (reply exists,
+ * private-reply cooldown) stays with the per-action checks.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { hashPayload } from './audit-log.js';
+
+// How long an outcome record blocks an identical resend
+const RECORD_TTL_MS: Record<RequestOutcome, number> = {
+  'in-flight': 24 * 60 * 60 * 1000,
+  unknown: 24 * 60 * 60 * 1000,
+  delivered: 10 * 60 * 1000,
+};
+
+export type RequestOutcome = 'in-flight' | 'unknown' | 'delivered';
+
+export interface IdempotencyRecord {
+  key: string;
+  endpoint: string;
+  outcome: RequestOutcome;
+  at: string;
+}
+
+export function idempotencyKey(method: string, endpoint: string, body: unknown): string {
+  return hashPayload({ method, endpoint, body });
+}
+
+export class IdempotencyStore {
+  constructor(private path: string) {}
+
+  get(key: string): IdempotencyRecord | null {
+    return this.load()[key] ?? null;
+  }
+
+  set(key: string, endpoint: string, outcome: RequestOutcome): void {
+    const records = this.load();
+    records[key] = { key, endpoint, outcome, at: new Date().toISOString() };
+    this.save(records);
+  }
+
+  /** Forgets a key after a definite rejection (4xx: nothing was applied, so resending is safe). */
+  clear(key: string): void {
+    const records = this.load();
+    if (records[key]) {
+      delete records[key];
+      this.save(records);
+    }
+  }
+
+  private load(): Record<string, IdempotencyRecord> {
+    if (!existsSync(this.path)) return {};
+    const records = JSON.parse(readFileSync(this.path, 'utf-8')) as Record<string, IdempotencyRecord>;
+    const now = Date.now();
+    for (const [key, record] of Object.entries(records)) {
+      if (Date.parse(record.at) < now - RECORD_TTL_MS[record.outcome]) delete records[key];
+    }
+    return records;
+  }
+
+  private save(records: Record<string, IdempotencyRecord>): void {
+    // Write-then-rename so an interrupted write can't leave a half file
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(records, null, 2), 'utf-8');
+    renameSync(tmp, this.path);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Prompt-Injection Pattern Scan
+ *
+ * Explains and extends the shared untrusted-field detector: every
+ * pattern that matches a field is reported by name with a short excerpt,
+ * so a reviewer can see *why* something looks like an injection attempt.
+ *
+ * Built-in patterns cover the common shapes (instruction overrides, role
+ * markers, tool/command smuggling, hidden characters). Store-specific
+ * patterns can be added in injection-patterns.json beside config.json:
+ *
+ *   { "patterns": [{ "id": "coupon-bait", "pattern": "free\\s+coupon\\s+code", "flags": "i" }] }
+ */
+
+import { existsSync, readFileSync } from 'fs';
+
+// Characters of context kept either side of a match in excerpts
+const EXCERPT_CONTEXT_CHARS = 40;
+
+export interface InjectionPattern {
+  id: string;
+  regex: RegExp;
+  custom?: boolean;
+}
+
+export interface PatternMatch {
+  id: string;
+  excerpt: string;
+  custom?: boolean;
+}
+
+export interface FieldFinding {
+  field: string;             // e.g. "body", "reviewer.name", "product_title"
+  matches: PatternMatch[];
+}
+
+export const BUILTIN_PATTERNS: InjectionPattern[] = [
+  { id: 'ignore-instructions', regex: /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|system)\b[^.\n]{0,20}\b(instructions?|prompts?|rules?|messages?)\b/i },
+  { id: 'new-instructions', regex: /\b(new|updated|real|actual)\s+(instructions?|system\s+prompt|rules)\s*[:-]/i },
+  { id: 'role-marker', regex: /(^|\n)\s*(system|assistant|user|developer)\s*:|<\/?(system|assistant|user|instructions?)>|\[\/?(INST|SYS)\]|<\|im_(start|end)\|>/i },
+  { id: 'ai-addressed', regex: /\b(you are (now )?(an? )?(ai|assistant|language model|chatbot|agent)|as an ai|dear (ai|assistant|claude|chatgpt|gpt)|(attention|note)\s*(to)?\s*(ai|llm|assistant|agent)s?\b)/i },
+  { id: 'tool-invocation', regex: /\b(run|execute|call|invoke)\b[^.\n]{0,30}\b(command|tool|function|script|curl|bash|shell)\b|\b(curate-review|reply-to-review|private-reply|bulk-curate|approve-all)\b/i },
+  { id: 'exfiltration', regex: /\b(send|email|post|forward|upload|leak)\b[^.\n]{0,40}\b(api[_ -]?keys?|tokens?|passwords?|credentials|config(\.json)?|secrets?)\b/i },
+  { id: 'hidden-characters', regex: /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/ },
+  { id: 'encoded-payload', regex: /\b(base64|rot13)\b|[A-Za-z0-9+/]{60,}={0,2}/i },
+];
+
+/** Loads extra store-specific patterns; invalid entries fail loudly. */
+export function loadInjectionPatterns(path: string): InjectionPattern[] {
+  if (!existsSync(path)) return BUILTIN_PATTERNS;
+
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as {
+    patterns?: Array<{ id?: string; pattern?: string; flags?: string }>;
+  };
+  if (!Array.isArray(parsed.patterns)) {
+    throw new Error(`Invalid injection patterns in ${path}: "patterns" must be an array`);
+  }
+  const custom = parsed.patterns.map((entry, i) => {
+    if (!entry.id || !entry.pattern) {
+      throw new Error(`Invalid injection pattern #${i + 1} in ${path}: needs "id" and "pattern"`);
+    }
+    try {
+      // Global/sticky flags would make test() stateful
+      return { id: entry.id, regex: new RegExp(entry.pattern, (entry.flags ?? 'i').replace(/[gy]/g, '')), custom: true };
+    } catch (error) {
+      throw new Error(`Invalid injection pattern "${entry.id}" in ${path}: ${(error as Error).message}`);
+    }
+  });
+  return [...BUILTIN_PATTERNS, ...custom];
+}
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - EXCERPT_CONTEXT_CHARS);
+  const end = Math.min(text.length, index + length + EXCERPT_CONTEXT_CHARS);
+  const visible = text.slice(start, end)
+    // Make hidden characters visible instead of passing them on
+    .replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, c => `<U+${c.charCodeAt(0).toString(16).toUpperCase()}>`)
+    .replace(/\s+/g, ' ');
+  return `${start > 0 ? '…' : ''}${visible}${end < text.length ? '…' : ''}`;
+}
+
+/** Every pattern matching the text, with an excerpt around the first hit. */
+export function matchPatterns(text: string | null | undefined, patterns: InjectionPattern[]): PatternMatch[] {
+  if (!text) return [];
+  const matches: PatternMatch[] = [];
+  for (const pattern of patterns) {
+    const match = pattern.regex.exec(text);
+    if (match) {
+      matches.push({
+        id: pattern.id,
+        excerpt: excerpt(text, match.index, match[0].length),
+        ...(pattern.custom ? { custom: true } : {}),
+      });
+    }
+  }
+  return matches;
+}
+
+/** Scans named fields, returning only those with matches. */
+export function scanFields(
+  fields: Record<string, string | null | undefined>,
+  patterns: InjectionPattern[]
+): FieldFinding[] {
+  return Object.entries(fields)
+    .map(([field, text]) => ({ field, matches: matchPatterns(text, patterns) }))
+    .filter(finding => finding.matches.length > 0);
+}
@@ -7,34 +7,189 @@
  * Key features:
  * - Reviews: list, get, count, curate, search
  * - Replies: public replies and private emails
- * - Reviewers: lookup by ID or email
+ * - Reviewers: lookup by ID or email, profile with review history
  * - Products: list and lookup by Shopify product ID
  * - Shop: aggregate metrics and info
+ * - Mirror: incremental sync into a local SQLite database
+ * - Audit: append-only log of every mutating call
+ * - Analytics: rating distribution, trends, velocity and reply stats
+ * - Tagging: local sentiment and topic labels per review
+ * - Spam scan: heuristic scoring to find likely fake reviews
+ * - Injection scan: prompt-injection patterns per field, optional curation queue
+ * - Alerts: threshold rules over new reviews, with optional webhook
+ * - Export: CSV, JSONL and Google Product Reviews XML, streamed to file
+ * - Import: reviews from CSV or other platforms' exports, resumable
+ * - Multi-store: named store profiles, cross-store counts and analytics
+ * - Credentials: env vars or a permission-checked secrets file, validation
+ * - Webhooks: signed local receiver, event queue with per-consumer cursors
  *
- * Uses both public and private API tokens for different operations.
+ * Uses both public and private API tokens for different operations;
+ * tokens are scrubbed from every error message.
  * Implements caching with configurable TTLs.
  */
 
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { userInfo } from 'os';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
+import { dirname, join, resolve } from 'path';
 import { PluginCache, TTL, createCacheKey } from "@local/plugin-cache";
+import { ReviewStore } from './review-store.js';
+import { paginate } from './pagination.js';
+import { appendJsonl, dataPath } from './local-data.js';
+import { TemplateStore, type RenderedReply, type ReplyKind, type ReplyTemplate } from './reply-templates.js';
+import { AuditLog, hashPayload, type AuditAction, type AuditEntry, type AuditQuery } from './audit-log.js';
+import { IdempotencyStore, idempotencyKey } from './idempotency.js';
+import {
+  AlertStateStore, advanceWatermark, evaluateReviewRules, loadAlertRules, newSinceWatermark, postWebhook,
+  type AlertHit,
+} from './alerts.js';
+import {
+  ImportProgressStore, fileFingerprint, mapRow, parseCsv, resolveColumns,
+  type ImportField, type ImportPlatform, type ImportProgress, type ImportRowError, type ReviewCreatePayload,
+} from './review-import.js';
+import { scoreSpamCandidates, type SpamCandidate } from './spam-scan.js';
+import { loadInjectionPatterns, scanFields, type FieldFinding } from './injection-scan.js';
+import { writeExport, type ExportFormat, type ExportResult } from './review-export.js';
+import {
+  ReviewTagger, loadTopicDictionary, summarizeTopics,
+  type ProductTopics, type ReviewTags, type SentimentLabel,
+} from './review-tagging.js';
+import { computeAnalytics, type AnalyticsReport, type TrendBucket } from './review-analytics.js';
+import { ProductIndex, type ProductIndexEntry, type ProductRef, type ProductTitleMatch } from './product-index.js';
+import {
+  JudgemeAuthError, JudgemeDuplicateError, JudgemeError, JudgemeNetworkError, JudgemeNotFoundError, JudgemeTimeoutError,
+  JudgemeValidationError, errorForResponse, redactSecrets,
+} from './errors.js';
+import { CacheDependencyIndex, type CacheDependency, type ReviewChange } from './cache-deps.js';
+import { StaleWhileRevalidateCache } from './swr-cache.js';
+import {
+  WebhookEventQueue, loadRecordedDeliveries, replayDeliveries, startWebhookReceiver,
+  type ReplayResult, type WebhookEvent, type WebhookReceiver, type WebhookTopic,
+} from './webhooks.js';
+import {
+  credentialEnvName, loosePermissions, resolveCredentials, type CredentialSource, type ResolvedCredentials,
+} from './credentials.js';
+import {
+  DEFAULT_RETRY, Throttle, backoffDelay, isRetryableStatus, rateLimitExhausted, serverRequestedDelay, sleep,
+  type RetryConfig, type ThrottleConfig,
+} from './rate-limit.js';
+import { ActionQueue, type ActionStatus, type QueuedAction, type StagedAction } from './action-queue.js';
+import { CurationJournal, type CuratedState, type CurationPlan } from './curation-journal.js';
+import { parseQuery, rankReviews, type SearchHit, type SearchOptions } from './review-search.js';
+import {
+  activeFilters, matchesFilters, resolveDateFilter, splitFilters, type FilterReport, type ReviewFilters,
+} from './review-filters.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const DEFAULT_BASE_URL = 'https://judge.me/api/v1';
+
 // Request timeout for API calls (30 seconds)
 const REQUEST_TIMEOUT_MS = 30_000;
 
-interface Config {
-  judgeme: {
-    shopDomain: string;
-    publicApiToken: string;
-    privateApiToken: string;
+// Largest page size Judge.me allows; used when walking full review/product lists
+const MAX_PER_PAGE = 100;
+
+// Minimum gap between private replies to the same reviewer
+const PRIVATE_REPLY_COOLDOWN_MS = 60 * 60 * 1000;
+
+// Default cap on reviews selected by a filter-based bulk curation
+const BULK_CURATION_MAX_ITEMS = 500;
+
+// Safety cap for unbounded product walks (10,000 products)
+const PRODUCT_SCAN_MAX_PAGES = 100;
+
+// An index miss re-walks /products at most this often, so repeated
+// lookups of an unknown ID don't each cost a full scan
+const PRODUCT_INDEX_MISS_REFRESH_MS = 15 * 60 * 1000;
+
+// Default page cap when client-side filters force a scan of /reviews
+const FILTER_SCAN_MAX_PAGES = 10;
+
+// Lifetimes per cached response kind: a TTL for the plugin cache and the
+// same span in milliseconds for the stale-while-revalidate store
+const MINUTE_MS = 60 * 1000;
+const CACHE_POLICIES = {
+  reviews: { ttl: TTL.FIFTEEN_MINUTES, freshMs: 15 * MINUTE_MS },
+  review: { ttl: TTL.FIVE_MINUTES, freshMs: 5 * MINUTE_MS },
+  reviews_count: { ttl: TTL.FIFTEEN_MINUTES, freshMs: 15 * MINUTE_MS },
+  reviewer: { ttl: TTL.FIFTEEN_MINUTES, freshMs: 15 * MINUTE_MS },
+  reviewer_email: { ttl: TTL.FIFTEEN_MINUTES, freshMs: 15 * MINUTE_MS },
+  shop_info: { ttl: TTL.HOUR, freshMs: 60 * MINUTE_MS },
+  products: { ttl: TTL.HOUR, freshMs: 60 * MINUTE_MS },
+};
+type CacheKind = keyof typeof CACHE_POLICIES;
+
+const DEFAULT_MAX_STALE_MS = 24 * 60 * MINUTE_MS;
+
+// Local webhook receiver defaults (`webhook serve`)
+const DEFAULT_WEBHOOK_PORT = 8787;
+const DEFAULT_WEBHOOK_PATH = '/webhooks/judgeme';
+
+export interface StoreSettings {
+  shopDomain: string;
+  // Tokens may instead come from env vars or the secrets file (see credentials.ts)
+  publicApiToken?: string;
+  privateApiToken?: string;
+  secretsFile?: string;  // Default: secrets.json beside config.json
+  webhookSecret?: string;  // Verifies incoming webhooks (default: the private token)
+  cache?: {
+    staleWhileRevalidate?: boolean;  // Keep responses on disk; answer stale ones while refreshing
+    maxStaleMs?: number;             // How long past its TTL an entry may be served (default: 24h)
+  };
+  baseUrl?: string;      // API root (default: https://judge.me/api/v1); e.g. a local mock server
+  requestTimeoutMs?: number;
+  stagedMode?: boolean;  // Queue outbound actions for approval instead of sending
+  retry?: Partial<RetryConfig>;
+  throttle?: ThrottleConfig;
+}
+
+export interface Config {
+  judgeme: StoreSettings & {
+    // Named store profiles; each one overrides the settings above
+    stores?: Record<string, Partial<StoreSettings>>;
+    defaultStore?: string;
   };
 }
 
-interface Review {
+// Store name for configs without profiles, and the --store value for every store
+const SINGLE_STORE = 'default';
+export const ALL_STORES = 'all';
+
+const CACHE_NAMESPACE = "judgeme-review-manager";
+
+/**
+ * Picks the store profile to use and merges it over the shared settings.
+ * `all` resolves to the default store, so the client still works for
+ * commands that only need one.
+ */
+function resolveStore(config: Config, requested: string | undefined): { name: string; settings: StoreSettings } {
+  const { stores, defaultStore, ...shared } = config.judgeme;
+  const names = Object.keys(stores ?? {});
+
+  if (names.length === 0) {
+    if (requested && requested !== ALL_STORES && requested !== SINGLE_STORE) {
+      throw new Error(`Unknown store "${requested}": config.json has no "stores" profiles`);
+    }
+    return { name: SINGLE_STORE, settings: shared };
+  }
+
+  let name = requested && requested !== ALL_STORES ? requested : defaultStore;
+  if (!name) {
+    if (names.length > 1 && requested !== ALL_STORES) {
+      throw new Error(`Several stores are configured (${names.join(', ')}): pass --store <name> or set judgeme.defaultStore`);
+    }
+    name = names[0];
+  }
+  if (!stores![name]) {
+    throw new Error(`Unknown store "${name}". Configured stores: ${names.join(', ')}`);
+  }
+
+  return { name, settings: { ...shared, ...stores![name] } as StoreSettings };
+}
+
+export interface Review {
   id: number;
   title: string;
   body: string;
@@ -64,17 +219,22 @@ interface Review {
   };
 }
 
-interface ReviewsResponse {
+export interface ReviewsResponse {
   reviews: Review[];
   current_page: number;
   per_page: number;
+  filters?: FilterReport;
+  pagesScanned?: number;
 }
 
-interface ReviewCountResponse {
+export interface ReviewCountResponse {
   count: number;
+  filters?: FilterReport;
+  exact?: boolean;
+  pagesScanned?: number;
 }
 
-interface Reviewer {
+export interface Reviewer {
   id: number;
   email: string;
   name: string;
@@ -97,34 +257,230 @@ interface ShopInfo {
   };
 }
 
-interface Product {
+export interface Product {
   id: number;  // Judge.me internal product ID
   external_id: number;  // Shopify product ID
   title: string;
   handle: string;
+  reviews_count?: number;
+  average_rating?: number;
 }
 
-interface ProductsResponse {
+export interface ProductsResponse {
   products: Product[];
   current_page: number;
   per_page: number;
 }
 
-// Initialize cache with namespace
-const cache = new PluginCache({
-  namespace: "judgeme-review-manager",
-  defaultTTL: TTL.FIFTEEN_MINUTES,
-});
+export interface SearchResult {
+  reviews: Review[];
+  hits: SearchHit[];
+  pagesSearched: number;
+  totalMatches: number;
+  filters?: FilterReport;
+}
+
+export interface AlertCheckResult {
+  checkedAt: string;
+  since: string;               // Watermark (or lookback start) this check compared against
+  reviewsChecked: number;
+  hits: AlertHit[];
+  webhook?: { url: string; ok: boolean; status?: number; error?: string };
+  stateSaved: boolean;         // False on dry runs or failed webhook delivery
+}
+
+export interface ImportResult {
+  file: string;
+  platform: ImportPlatform;
+  dryRun: boolean;
+  resumedFrom: number;       // Rows skipped because an earlier run handled them
+  processed: number;         // Rows looked at in this run
+  valid: number;
+  imported: number;
+  staged: number;            // Staged mode: rows queued for approval instead of created
+  failed: number;
+  errorsPath: string | null;
+  totals: { imported: number; staged: number; failed: number; lastRow: number } | null;  // Across resumed runs
+  complete: boolean;         // False when --limit stopped the run before the end of the file
+}
+
+export interface ReviewAnalysis {
+  reviews: Array<{ review: Review; tags: ReviewTags }>;
+  sentiment: Record<SentimentLabel, number>;
+  topics: Record<string, number>;   // Reviews mentioning each topic
+}
+
+export interface InjectionScanResult {
+  scanned: { reviews: number; products: number };
+  reviews: Array<{ review: Review; findings: FieldFinding[] }>;
+  products: Array<{ product: ProductIndexEntry; findings: FieldFinding[] }>;
+  queued: Array<{ reviewId: number; actionId: string }>;
+}
+
+export interface ReviewerProfile {
+  reviewer: Reviewer;
+  reviews: Review[];          // Newest first
+  stats: {
+    reviewCount: number;
+    averageRating: number | null;
+    repliedCount: number;     // Reviews with a public reply
+    firstReviewAt: string | null;
+    lastReviewAt: string | null;
+  };
+  privateReplies: AuditEntry[];   // Logged private replies, newest first (successes and failures)
+  complete: boolean;          // False when the API scan hit its page cap
+}
+
+export interface BulkCurationSelector extends ReviewFilters {
+  ids?: number[];
+  keyword?: string;         // Search query (same syntax as searchReviews)
+  reviewerEmail?: string;
+  shopifyProductId?: number;
+  maxItems?: number;        // Cap for filter-based selection (default: 500)
+}
+
+export interface BulkCurationResult {
+  batchId: string;
+  action: 'apply' | 'undo';
+  changed: Array<{ id: number; previous: CuratedState; status: CuratedState }>;
+  skipped: number[];
+  failed: Array<{ id: number; error: string }>;
+  staged?: Array<{ id: number; actionId: string }>;   // Staged mode: queued for approval, not sent
+}
+
+export interface SyncResult {
+  mode: 'full' | 'incremental';
+  products: number;
+  reviews: number;
+  reviewers: number;
+  removed: { reviews: number; products: number };   // Local rows gone upstream
+  pagesFetched: number;
+  watermark: string | null;
+  syncedAt: string;
+}
+
+type AnalyticsOptions = {
+  createdAfter?: string;
+  createdBefore?: string;
+  bucket?: TrendBucket;
+  shopifyProductId?: number;
+  source?: 'api' | 'local';
+  maxPages?: number;
+};
+
+/** Review selection and report window shared by single- and cross-store analytics. */
+function analyticsWindow(options: AnalyticsOptions) {
+  const now = Date.now();
+  const createdAfter = options.createdAfter ?? '90d';
+  return {
+    selection: {
+      shopifyProductId: options.shopifyProductId,
+      createdAfter,
+      createdBefore: options.createdBefore,
+      maxPages: options.maxPages,
+    },
+    window: {
+      from: resolveDateFilter(createdAfter, now),
+      to: options.createdBefore ? resolveDateFilter(options.createdBefore, now) : now,
+      bucket: options.bucket,
+    },
+  };
+}
+
+// One cache per store, so reviews and counts from different shops never mix
+const caches = new Map<string, PluginCache>();
+
+function cacheFor(namespace: string): PluginCache {
+  let cache = caches.get(namespace);
+  if (!cache) {
+    cache = new PluginCache({ namespace, defaultTTL: TTL.FIFTEEN_MINUTES });
+    caches.set(namespace, cache);
+  }
+  return cache;
+}
+
+/** OS user recorded as the actor for queued/approved actions. */
+function currentUser(): string {
+  try {
+    return userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+export interface ClientOptions {
+  config?: Config;        // Use this config instead of reading a file
+  configPath?: string;    // Default: $JUDGEME_CONFIG, else config.json beside dist/
+  store?: string;         // Store profile name, or 'all' (default: $JUDGEME_STORE, else judgeme.defaultStore)
+}
+
+export type TokenStatus = 'ok' | 'missing' | 'rejected' | 'error';
+
+export interface CredentialCheck {
+  store: string;
+  shopDomain: string;
+  ok: boolean;                // Private token works and no configured token failed
+  tokens: Record<'public' | 'private', {
+    status: TokenStatus;
+    source?: CredentialSource;
+    message?: string;         // Redacted error for 'rejected' and 'error'
+  }>;
+  secretsFile?: string;       // Path, when a secrets file was read
+  warnings: string[];
+}
 
 export class JudgemeClient {
-  private baseUrl = 'https://judge.me/api/v1';
-  private config: Config;
+  private baseUrl: string;
+  private requestTimeoutMs: number;
+  private configPath: string;
+  private rawConfig: Config;
+  private config: { judgeme: StoreSettings };
+  private credentials: ResolvedCredentials;
+  private storeName: string;
+  private allStores: boolean;
+  private cache: PluginCache;
   private cacheDisabled: boolean = false;
-
-  constructor() {
+  private store: ReviewStore | null = null;
+  private journal: CurationJournal | null = null;
+  private templates = new TemplateStore();
+  private actionQueue: ActionQueue | null = null;
+  private auditLog: AuditLog | null = null;
+  private idempotency: IdempotencyStore | null = null;
+  private productIndex: ProductIndex | null = null;
+  private tagger: ReviewTagger | null = null;
+  private webhookQueue: WebhookEventQueue | null = null;
+  private cacheDeps: CacheDependencyIndex | null = null;
+  private swrCache: StaleWhileRevalidateCache | null = null;
+  private retryConfig: RetryConfig;
+  private throttle: Throttle;
+
+  constructor(options: ClientOptions = {}) {
     // When compiled, __dirname is dist/, so look in parent for config.json
-    const configPath = join(__dirname, '..', 'config.json');
-    this.config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    const configPath = options.configPath ?? process.env.JUDGEME_CONFIG ?? join(__dirname, '..', 'config.json');
+    this.configPath = configPath;
+    this.rawConfig = options.config ?? JSON.parse(readFileSync(configPath, 'utf-8'));
+    const requested = options.store ?? process.env.JUDGEME_STORE;
+    const { name, settings } = resolveStore(this.rawConfig, requested);
+    this.credentials = resolveCredentials(settings, {
+      store: this.hasProfiles() ? name : undefined,
+      secretsFile: resolve(
+        dirname(configPath),
+        process.env.JUDGEME_SECRETS_FILE ?? settings.secretsFile ?? 'secrets.json'
+      ),
+    });
+    this.config = { judgeme: { ...settings, ...this.credentials.values } as StoreSettings };
+    if (!this.config.judgeme.shopDomain) {
+      throw new Error(
+        `No shopDomain for store "${name}": set it in config.json, the secrets file or ${credentialEnvName('shopDomain', this.hasProfiles() ? name : undefined)}`
+      );
+    }
+    this.storeName = name;
+    this.allStores = requested === ALL_STORES;
+    this.cache = cacheFor(this.hasProfiles() ? `${CACHE_NAMESPACE}-${name}` : CACHE_NAMESPACE);
+    this.baseUrl = (this.config.judgeme.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.requestTimeoutMs = this.config.judgeme.requestTimeoutMs ?? REQUEST_TIMEOUT_MS;
+    this.retryConfig = { ...DEFAULT_RETRY, ...this.config.judgeme.retry };
+    this.throttle = new Throttle(this.config.judgeme.throttle);
   }
 
   // ============================================
@@ -134,28 +490,107 @@ export class JudgemeClient {
   /** Disables caching for all subsequent requests. */
   disableCache(): void {
     this.cacheDisabled = true;
-    cache.disable();
+    this.cache.disable();
   }
 
   /** Re-enables caching after it was disabled. */
   enableCache(): void {
     this.cacheDisabled = false;
-    cache.enable();
+    this.cache.enable();
   }
 
   /** Returns cache statistics including hit/miss counts. */
   getCacheStats() {
-    return cache.getStats();
+    const stats = this.cache.getStats();
+    const swr = this.getSwrCache();
+    return swr ? { ...stats, staleWhileRevalidate: swr.stats() } : stats;
   }
 
   /** Clears all cached data. @returns Number of cache entries cleared */
   clearCache(): number {
-    return cache.clear();
+    this.getCacheDeps().clear();
+    return this.cache.clear() + (this.getSwrCache()?.clear() ?? 0);
   }
 
   /** Invalidates a specific cache entry by key. */
   invalidateCacheKey(key: string): boolean {
-    return cache.invalidate(key);
+    this.getCacheDeps().forget(key);
+    const swrDeleted = this.getSwrCache()?.delete(key) ?? false;
+    return this.cache.invalidate(key) || swrDeleted;
+  }
+
+  /** Resolves once background stale-while-revalidate refreshes have finished. */
+  async waitForCacheRefresh(): Promise<void> {
+    await this.getSwrCache()?.settled();
+  }
+
+  /**
+   * Cached read: answers from the plugin cache (or the stale-while-
+   * revalidate store when enabled) and records what the response
+   * depends on, so mutations can invalidate it precisely.
+   */
+  private cached<T>(
+    kind: CacheKind,
+    params: Record<string, unknown> | null,
+    fetcher: () => Promise<T>,
+    dependsOn?: (value: T) => CacheDependency
+  ): Promise<T> {
+    const key = params ? createCacheKey(kind, params) : kind;
+    const policy = CACHE_POLICIES[kind];
+    if (this.cacheDisabled) return fetcher();
+
+    const tracked = async () => {
+      const value = await fetcher();
+      if (dependsOn) this.getCacheDeps().track(key, dependsOn(value));
+      return value;
+    };
+    const swr = this.getSwrCache();
+    if (swr) return swr.get(key, policy.freshMs, tracked);
+    return this.cache.getOrFetch(key, tracked, { ttl: policy.ttl });
+  }
+
+  /** Drops every cached response that `change` makes stale, and nothing else. */
+  private invalidateFor(change: ReviewChange): void {
+    const swr = this.getSwrCache();
+    for (const key of this.getCacheDeps().takeAffected(change)) {
+      this.cache.invalidate(key);
+      swr?.delete(key);
+    }
+  }
+
+  /** Judge.me product ID for a Shopify one, from the local index; null if unknown. */
+  private indexedProductId(shopifyProductId: number | undefined): number | null {
+    if (shopifyProductId === undefined) return null;
+    return this.getProductIndex().find({ externalId: shopifyProductId })?.id ?? null;
+  }
+
+  private getCacheDeps(): CacheDependencyIndex {
+    if (!this.cacheDeps) {
+      const swrRetainMs = this.config.judgeme.cache?.staleWhileRevalidate
+        ? this.config.judgeme.cache.maxStaleMs ?? DEFAULT_MAX_STALE_MS
+        : 0;
+      this.cacheDeps = new CacheDependencyIndex(this.dataFile('cache-deps.json'), 2 * 60 * MINUTE_MS + swrRetainMs);
+      if (this.cacheDeps.isNew) {
+        // Entries cached before dependencies were tracked can't be matched later
+        this.cache.invalidatePattern(/^(review|reviews|reviews_count|products|shop_info)\b/);
+        this.cacheDeps.clear();
+      }
+    }
+    return this.cacheDeps;
+  }
+
+  /** The stale-while-revalidate store, or null when it isn't enabled. */
+  private getSwrCache(): StaleWhileRevalidateCache | null {
+    const settings = this.config.judgeme.cache;
+    if (!settings?.staleWhileRevalidate) return null;
+    if (!this.swrCache) {
+      this.swrCache = new StaleWhileRevalidateCache(
+        this.dataFile('swr-cache'),
+        settings.maxStaleMs ?? DEFAULT_MAX_STALE_MS,
+        text => this.redact(text)
+      );
+    }
+    return this.swrCache;
   }
 
   // ============================================
@@ -169,13 +604,13 @@ export class JudgemeClient {
       params?: Record<string, string | number | undefined>;
       body?: Record<string, unknown>;
       usePrivateToken?: boolean;
+      allowResend?: boolean;  // Skip the duplicate-POST guard
+      retry?: boolean;        // Opt a non-GET request into retries on 429/5xx
     } = {}
   ): Promise<T> {
-    const { method = 'GET', params = {}, body, usePrivateToken = true } = options;
+    const { method = 'GET', params = {}, body, usePrivateToken = true, allowResend = false } = options;
 
-    const token = usePrivateToken
-      ? this.config.judgeme.privateApiToken
-      : this.config.judgeme.publicApiToken;
+    const token = this.tokenFor(usePrivateToken, `${method} ${endpoint}`);
 
     const queryParams = new URLSearchParams({
       api_token: token,
@@ -191,9 +626,89 @@ export class JudgemeClient {
 
     const url = `${this.baseUrl}${endpoint}?${queryParams.toString()}`;
 
+    // POSTs aren't idempotent: refuse to resend one whose earlier outcome is unknown
+    const guardKey = method === 'POST' ? idempotencyKey(method, endpoint, body) : null;
+    if (guardKey) {
+      this.checkResend(guardKey, method, endpoint, allowResend);
+    }
+
+    // Only GETs retry by default; writes must opt in, and even then a
+    // timed-out POST is never retried (its outcome is unknown)
+    const retryable = method === 'GET' || options.retry === true;
+    const retry = this.retryConfig;
+
+    const endpointLabel = `${method} ${endpoint}`;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.throttle.acquire();
+      if (guardKey) this.getIdempotency().set(guardKey, endpoint, 'in-flight');
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, method, endpointLabel, body);
+      } catch (error) {
+        if (guardKey) {
+          // No answer (timeout, network error): Judge.me may or may not have it
+          this.getIdempotency().set(guardKey, endpoint, 'unknown');
+          throw error;
+        }
+        if (retryable && attempt < retry.maxRetries) {
+          await sleep(backoffDelay(attempt, retry));
+          continue;
+        }
+        throw error;
+      }
+
+      // A server-requested wait is never shortened: longer than maxDelayMs, the call gives up instead
+      const serverDelay = serverRequestedDelay(response.headers);
+      const waitAllowed = serverDelay === null || serverDelay <= retry.maxDelayMs;
+      if (serverDelay !== null && waitAllowed && (response.status === 429 || rateLimitExhausted(response.headers))) {
+        this.throttle.pause(serverDelay);
+      }
+
+      if (!response.ok) {
+        // A 4xx is a rejection, so nothing was applied. A 5xx can come from a
+        // gateway or a crash after the write landed, so treat it like a timeout
+        const outcomeUnknown = guardKey !== null && response.status >= 500;
+        if (guardKey) {
+          if (outcomeUnknown) this.getIdempotency().set(guardKey, endpoint, 'unknown');
+          else this.getIdempotency().clear(guardKey);
+        }
+        const errorText = this.redact(await response.text());
+
+        if (retryable && !outcomeUnknown && waitAllowed && isRetryableStatus(response.status) && attempt < retry.maxRetries) {
+          await sleep(serverDelay ?? backoffDelay(attempt, retry));
+          continue;
+        }
+        throw errorForResponse(response.status, errorText, {
+          endpoint: endpointLabel,
+          retryAfterMs: serverDelay ?? undefined,
+        });
+      }
+
+      if (guardKey) this.getIdempotency().set(guardKey, endpoint, 'delivered');
+      try {
+        return await response.json() as T;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new JudgemeError('API', `Judge.me returned invalid JSON (${endpointLabel}): ${this.redact(reason)}`, {
+          status: response.status,
+          endpoint: endpointLabel,
+        });
+      }
+    }
+  }
+
+  /** Single fetch with the request timeout applied. Throws typed timeout/network errors. */
+  private async fetchWithTimeout(
+    url: string,
+    method: string,
+    endpointLabel: string,
+    body?: Record<string, unknown>
+  ): Promise<Response> {
     // Set up timeout with AbortController
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeoutMs);
 
     const fetchOptions: RequestInit = {
       method,
@@ -208,24 +723,124 @@ export class JudgemeClient {
     }
 
     try {
-      const response = await fetch(url, fetchOptions);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Judge.me API error (${response.status}): ${errorText}`);
-      }
-
-      return response.json();
+      return await fetch(url, fetchOptions);
     } catch (error) {
+      // Writes that got no answer must not be retried blindly
+      const retryable = method === 'GET';
       if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(`Judge.me API request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+        throw new JudgemeTimeoutError(
+          `Judge.me API request timed out after ${this.requestTimeoutMs / 1000}s (${endpointLabel})`,
+          { endpoint: endpointLabel, retryable }
+        );
       }
-      throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new JudgemeNetworkError(
+        `Judge.me API request failed (${endpointLabel}): ${this.redact(reason)}`,
+        { endpoint: endpointLabel, retryable }
+      );
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
+  /**
+   * The token for a request. Public reads fall back to the private token;
+   * a missing private token fails before anything is sent.
+   */
+  private tokenFor(usePrivateToken: boolean, endpointLabel: string): string {
+    const { publicApiToken, privateApiToken } = this.config.judgeme;
+    const token = usePrivateToken ? privateApiToken : publicApiToken ?? privateApiToken;
+    if (token) return token;
+
+    const key = usePrivateToken ? 'privateApiToken' : 'publicApiToken';
+    throw new JudgemeAuthError(`${endpointLabel} needs the ${usePrivateToken ? 'private' : 'public'} API token, which is not configured`, {
+      endpoint: endpointLabel,
+      suggestion: `Set ${credentialEnvName(key, this.hasProfiles() ? this.storeName : undefined)} or ${key} in the secrets file, then run config-validate.`,
+    });
+  }
+
+  /** Scrubs API tokens from text that may end up in errors or logs. */
+  redact(text: string): string {
+    const { privateApiToken, publicApiToken, webhookSecret } = this.config.judgeme;
+    return redactSecrets(text, [privateApiToken, publicApiToken, webhookSecret]);
+  }
+
+  private getIdempotency(): IdempotencyStore {
+    if (!this.idempotency) {
+      this.idempotency = new IdempotencyStore(this.dataFile('idempotency.json'));
+    }
+    return this.idempotency;
+  }
+
+  /** Throws if an identical POST was delivered or may have been delivered recently. */
+  private checkResend(key: string, method: string, endpoint: string, allowResend: boolean): void {
+    const previous = this.getIdempotency().get(key);
+    if (!previous || allowResend) return;
+
+    const endpointLabel = `${method} ${endpoint}`;
+    if (previous.outcome === 'delivered') {
+      throw new JudgemeDuplicateError(
+        `An identical ${endpointLabel} was already delivered at ${previous.at}. ` +
+        `Use --force to send it again.`,
+        { endpoint: endpointLabel }
+      );
+    }
+    throw new JudgemeDuplicateError(
+      `An identical ${endpointLabel} at ${previous.at} timed out, got a server error or was interrupted, so Judge.me ` +
+      `may already have received it. Check the review (and audit-log) before resending with --force.`,
+      { endpoint: endpointLabel }
+    );
+  }
+
+  /**
+   * Runs a mutating API call and appends the outcome to the audit log.
+   * Failures are logged and rethrown.
+   */
+  private async audited<T>(
+    entry: {
+      action: AuditAction;
+      reviewId?: number;
+      reviewerId?: number;
+      productExternalId?: number;
+      payload: Record<string, unknown>;
+      curated?: string | null;
+      subject?: string;
+      replyText?: string;
+    },
+    call: () => Promise<T>
+  ): Promise<T> {
+    const { payload, ...details } = entry;
+    const base = { ...details, actor: currentUser(), payloadHash: hashPayload(payload) };
+    try {
+      const result = await call();
+      this.getAuditLog().append({ ...base, status: 'success' });
+      return result;
+    } catch (error) {
+      this.getAuditLog().append({
+        ...base,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private getAuditLog(): AuditLog {
+    if (!this.auditLog) {
+      this.auditLog = new AuditLog(this.dataFile('audit-log.jsonl'));
+    }
+    return this.auditLog;
+  }
+
+  /**
+   * Queries the mutation audit log, newest first.
+   *
+   * @param filters - Date range (epoch ms), review ID, action type, status, limit
+   */
+  queryAuditLog(filters: AuditQuery = {}): AuditEntry[] {
+    return this.getAuditLog().query(filters);
+  }
+
   // ============================================
   // REVIEW OPERATIONS
   // ============================================
@@ -233,54 +848,161 @@ export class JudgemeClient {
   /**
    * Lists reviews with optional filters.
    *
+   * Product and exact rating are passed to the API. Any other filter
+   * (date range, curation state, rating range, verified, pictures,
+   * reply, hidden, published) is applied client-side by scanning pages
+   * newest first until the requested page is filled; `filters` in the
+   * result reports where each filter ran.
+   *
    * @param options - Filter and pagination options
    * @param options.page - Page number (1-indexed)
    * @param options.perPage - Results per page (max 100)
    * @param options.productId - Judge.me internal product ID
    * @param options.shopifyProductId - Shopify product ID (auto-converts to Judge.me ID)
    * @param options.rating - Filter by star rating (1-5)
+   * @param options.maxScanPages - Page cap for client-side filtering (default: 10)
    * @returns Paginated review list
    *
-   * @cached TTL: 15 minutes
+   * @cached TTL: 15 minutes (per API page)
    */
   async listReviews(options: {
     page?: number;
     perPage?: number;
     productId?: number;  // Judge.me internal product ID
     shopifyProductId?: number;  // Shopify product ID (external_id)
-    rating?: number;
-  } = {}): Promise<ReviewsResponse> {
-    let judgemeProductId = options.productId;
-
-    // If Shopify product ID provided, look up Judge.me internal ID
-    if (options.shopifyProductId && !judgemeProductId) {
-      const product = await this.getProductByExternalId(options.shopifyProductId);
-      if (product) {
-        judgemeProductId = product.id;
-      }
+    maxScanPages?: number;
+  } & ReviewFilters = {}): Promise<ReviewsResponse> {
+    const judgemeProductId = await this.resolveProductId(options);
+    const { api, client, report } = splitFilters(options);
+
+    if (report.client.length === 0) {
+      const result = await this.fetchReviewsPage({
+        page: options.page,
+        perPage: options.perPage,
+        productId: judgemeProductId,
+        rating: api.rating,
+      });
+      return { ...result, filters: report };
     }
 
-    const cacheKey = createCacheKey("reviews", {
-      page: options.page,
-      perPage: options.perPage,
-      productId: judgemeProductId,
-      rating: options.rating,
-    });
+    const page = options.page || 1;
+    const perPage = options.perPage || 10;
+    const scan = await this.scanFilteredReviews(
+      { productId: judgemeProductId, rating: api.rating },
+      client,
+      { maxPages: options.maxScanPages, stopAfter: page * perPage }
+    );
+
+    return {
+      reviews: scan.matches.slice((page - 1) * perPage, page * perPage),
+      current_page: page,
+      per_page: perPage,
+      filters: report,
+      pagesScanned: scan.pagesScanned,
+    };
+  }
 
-    return cache.getOrFetch(
-      cacheKey,
+  /**
+   * Fetches one raw page of reviews using only API-side filters.
+   *
+   * @cached TTL: 15 minutes
+   */
+  private async fetchReviewsPage(options: {
+    page?: number;
+    perPage?: number;
+    productId?: number;
+    rating?: number;
+  }): Promise<ReviewsResponse> {
+    return this.cached(
+      "reviews",
+      {
+        page: options.page,
+        perPage: options.perPage,
+        productId: options.productId,
+        rating: options.rating,
+      },
       async () => {
         const params: Record<string, string | number | undefined> = {
           page: options.page,
           per_page: options.perPage,
-          product_id: judgemeProductId,  // Use Judge.me internal ID
+          product_id: options.productId,  // Use Judge.me internal ID
           rating: options.rating,
         };
 
         return this.request<ReviewsResponse>('/reviews', { params });
       },
-      { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
+      page => ({
+        kind: 'list',
+        reviewIds: (page.reviews ?? []).map(r => r.id),
+        scope: { productId: options.productId, rating: options.rating },
+      })
+    );
+  }
+
+  /**
+   * Pages through reviews (newest first) applying client-side filters.
+   *
+   * Stops when `stopAfter` matches are collected, the list ends, the
+   * page cap is hit, or a page ends before `createdAfter` (nothing
+   * older can match).
+   */
+  private async scanFilteredReviews(
+    apiFilters: { productId?: number; rating?: number },
+    clientFilters: ReviewFilters,
+    options: { maxPages?: number; stopAfter?: number } = {}
+  ): Promise<{ matches: Review[]; pagesScanned: number; complete: boolean }> {
+    const maxPages = options.maxPages || FILTER_SCAN_MAX_PAGES;
+    const now = Date.now();
+    const cutoff = clientFilters.createdAfter !== undefined
+      ? resolveDateFilter(clientFilters.createdAfter, now)
+      : null;
+    const matches: Review[] = [];
+    let pagesScanned = 0;
+
+    const pages = paginate(
+      page => this.fetchReviewsPage({ ...apiFilters, page, perPage: MAX_PER_PAGE }).then(r => r.reviews),
+      { perPage: MAX_PER_PAGE, maxPages }
     );
+    for await (const { page, items, last } of pages) {
+      pagesScanned = page;
+      matches.push(...items.filter(r => matchesFilters(r, clientFilters, now)));
+
+      if (last) {
+        return { matches, pagesScanned, complete: true };
+      }
+      const oldest = items[items.length - 1];
+      if (cutoff !== null && Date.parse(oldest.created_at) < cutoff) {
+        return { matches, pagesScanned, complete: true };
+      }
+      if (options.stopAfter !== undefined && matches.length >= options.stopAfter) {
+        return { matches, pagesScanned, complete: false };
+      }
+    }
+
+    return { matches, pagesScanned, complete: false };
+  }
+
+  /**
+   * Converts a Shopify product ID to Judge.me's internal ID when needed.
+   *
+   * @throws JudgemeNotFoundError if no product has that Shopify ID
+   */
+  private async resolveProductId(options: {
+    productId?: number;
+    shopifyProductId?: number;
+  }): Promise<number | undefined> {
+    if (options.productId || !options.shopifyProductId) {
+      return options.productId;
+    }
+
+    const product = await this.findProduct({ externalId: options.shopifyProductId });
+    if (!product) {
+      throw new JudgemeNotFoundError(
+        `No Judge.me product found for Shopify product ID ${options.shopifyProductId}`,
+        { suggestion: 'Check the Shopify product ID, or find the product with lookup-product --title.' }
+      );
+    }
+    return product.id;
   }
 
   /**
@@ -292,22 +1014,26 @@ export class JudgemeClient {
    * @cached TTL: 5 minutes
    */
   async getReview(id: number): Promise<{ review: Review }> {
-    const cacheKey = createCacheKey("review", { id });
-
-    return cache.getOrFetch(
-      cacheKey,
+    return this.cached(
+      "review",
+      { id },
       () => this.request<{ review: Review }>(`/reviews/${id}`),
-      { ttl: TTL.FIVE_MINUTES, bypassCache: this.cacheDisabled }
+      () => ({ kind: 'review', reviewIds: [id] })
     );
   }
 
   /**
    * Counts reviews matching filter criteria.
    *
+   * Uses the count endpoint when only product/rating filters are set.
+   * Other filters require scanning reviews client-side; `exact` is
+   * false if the scan hit its page cap before the end of the list.
+   *
    * @param options - Filter options
    * @param options.productId - Judge.me internal product ID
    * @param options.shopifyProductId - Shopify product ID (auto-converts)
    * @param options.rating - Filter by star rating (1-5)
+   * @param options.maxScanPages - Page cap for client-side filtering (default: 10)
    * @returns Count of matching reviews
    *
    * @cached TTL: 15 minutes
@@ -315,55 +1041,68 @@ export class JudgemeClient {
   async countReviews(options: {
     productId?: number;  // Judge.me internal product ID
     shopifyProductId?: number;  // Shopify product ID (external_id)
-    rating?: number;
-  } = {}): Promise<ReviewCountResponse> {
-    let judgemeProductId = options.productId;
-
-    // If Shopify product ID provided, look up Judge.me internal ID
-    if (options.shopifyProductId && !judgemeProductId) {
-      const product = await this.getProductByExternalId(options.shopifyProductId);
-      if (product) {
-        judgemeProductId = product.id;
-      }
+    maxScanPages?: number;
+  } & ReviewFilters = {}): Promise<ReviewCountResponse> {
+    const judgemeProductId = await this.resolveProductId(options);
+    const { api, client, report } = splitFilters(options);
+
+    if (report.client.length > 0) {
+      const scan = await this.scanFilteredReviews(
+        { productId: judgemeProductId, rating: api.rating },
+        client,
+        { maxPages: options.maxScanPages }
+      );
+      return { count: scan.matches.length, filters: report, exact: scan.complete, pagesScanned: scan.pagesScanned };
     }
 
-    const cacheKey = createCacheKey("reviews_count", {
-      productId: judgemeProductId,
-      rating: options.rating,
-    });
-
-    return cache.getOrFetch(
-      cacheKey,
+    const result = await this.cached(
+      "reviews_count",
+      {
+        productId: judgemeProductId,
+        rating: api.rating,
+      },
       async () => {
         const params: Record<string, string | number | undefined> = {
           product_id: judgemeProductId,  // Use Judge.me internal ID
-          rating: options.rating,
+          rating: api.rating,
         };
 
         return this.request<ReviewCountResponse>('/reviews/count', { params });
       },
-      { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
+      () => ({ kind: 'count', scope: { productId: judgemeProductId, rating: api.rating } })
     );
+    return { ...result, filters: report, exact: true };
   }
 
   /**
    * Curates a review (approve or mark as spam).
    *
    * @param id - Review ID
-   * @param status - Curation status: 'ok' (approve) or 'spam' (hide)
+   * @param status - Curation status: 'ok' (approve), 'spam' (hide), or null
+   *   (back to pending; used when undoing bulk curation)
    * @returns Updated review
    *
-   * @invalidates review/*
+   * @invalidates the review, list pages containing it, counts and stats in its scope
+   * @audited
    */
-  async curateReview(id: number, status: 'ok' | 'spam'): Promise<{ review: Review }> {
+  async curateReview(id: number, status: CuratedState): Promise<{ review: Review }> {
     // Judge.me uses PUT to update review curation status
     // The curated field can be: 'ok' (published), 'spam' (hidden), or null (pending)
-    const result = await this.request<{ review: Review }>(`/reviews/${id}`, {
-      method: 'PUT',
-      body: { curated: status },
+    const payload = { curated: status };
+    const result = await this.audited(
+      { action: 'curate', reviewId: id, payload, curated: status },
+      () => this.request<{ review: Review }>(`/reviews/${id}`, {
+        method: 'PUT',
+        body: payload,
+      })
+    );
+    // Publication changes what counts and product stats include
+    this.invalidateFor({
+      reviewId: id,
+      productId: this.indexedProductId(result?.review?.product_external_id),
+      rating: result?.review?.rating,
+      statsChanged: true,
     });
-    // Invalidate review caches after mutation
-    cache.invalidatePattern(/^review/);
     return result;
   }
 
@@ -371,24 +1110,48 @@ export class JudgemeClient {
    * Posts a public reply to a review.
    *
    * Public replies are visible on the storefront below the review.
+   * Refuses if the review already has a reply unless `force` is set.
    *
    * @param reviewId - Review ID to reply to
    * @param reply - Reply text content
+   * @param options.force - Post even if a reply exists or an identical post may have been sent
    * @returns API response
    *
-   * @invalidates review/{reviewId}
+   * @invalidates the review and list pages containing it
+   * @audited
    */
-  async replyToReview(reviewId: number, reply: string): Promise<unknown> {
+  async replyToReview(
+    reviewId: number,
+    reply: string,
+    options: { force?: boolean } = {}
+  ): Promise<unknown> {
+    if (!options.force) {
+      // Check the live review, not the cache, so a reply posted elsewhere is seen
+      const { review } = await this.request<{ review: Review }>(`/reviews/${reviewId}`);
+      if (review.reply?.body) {
+        throw new JudgemeDuplicateError(
+          `Review ${reviewId} already has a public reply (posted ${review.reply.created_at}). ` +
+          `Refusing to post a second one; use --force to override.`,
+          { endpoint: 'POST /replies' }
+        );
+      }
+    }
+
     // POST /replies endpoint for public replies
-    const result = await this.request<unknown>('/replies', {
-      method: 'POST',
-      body: {
-        review_id: reviewId,
-        body: reply
-      },
-    });
-    // Invalidate specific review cache
-    cache.invalidate(createCacheKey("review", { id: reviewId }));
+    const payload = {
+      review_id: reviewId,
+      body: reply
+    };
+    const result = await this.audited(
+      { action: 'reply', reviewId, payload, replyText: reply },
+      () => this.request<unknown>('/replies', {
+        method: 'POST',
+        body: payload,
+        allowResend: options.force,
+      })
+    );
+    // The reply shows on the review and on every cached page listing it
+    this.invalidateFor({ reviewId });
     return result;
   }
 
@@ -396,102 +1159,526 @@ export class JudgemeClient {
    * Sends a private email reply to a reviewer.
    *
    * Unlike public replies, this sends a direct email to the reviewer
-   * and is not displayed publicly.
+   * and is not displayed publicly. Refuses if the same reviewer was
+   * emailed in the last hour (per the audit log) unless `force` is set.
    *
    * @param reviewId - Review ID to reply to
    * @param subject - Email subject line
    * @param body - Email body content
+   * @param options.force - Send even if the reviewer was emailed recently
    * @returns API response
+   *
+   * @audited
    */
   async sendPrivateReply(
     reviewId: number,
     subject: string,
-    body: string
+    body: string,
+    options: { force?: boolean } = {}
   ): Promise<unknown> {
+    const { review } = await this.getReview(reviewId);
+    const reviewerId = review.reviewer?.id;
+
+    if (!options.force && reviewerId !== undefined) {
+      const [recent] = this.queryAuditLog({
+        action: 'private-reply',
+        status: 'success',
+        reviewerId,
+        since: Date.now() - PRIVATE_REPLY_COOLDOWN_MS,
+        limit: 1,
+      });
+      if (recent) {
+        throw new JudgemeDuplicateError(
+          `Reviewer ${reviewerId} was already sent a private reply at ${recent.at} ` +
+          `(review ${recent.reviewId}, subject "${recent.subject}"). ` +
+          `Refusing to email them again within ${PRIVATE_REPLY_COOLDOWN_MS / 60_000} minutes; use --force to override.`,
+          { endpoint: 'POST /private_replies' }
+        );
+      }
+    }
+
     // POST /private_replies endpoint for private emails
-    return this.request<unknown>('/private_replies', {
-      method: 'POST',
-      body: {
-        review_id: reviewId,
-        subject,
-        body
-      },
-    });
+    const payload = {
+      review_id: reviewId,
+      subject,
+      body
+    };
+    return this.audited(
+      { action: 'private-reply', reviewId, reviewerId, payload, subject, replyText: body },
+      () => this.request<unknown>('/private_replies', {
+        method: 'POST',
+        body: payload,
+        allowResend: options.force,
+      })
+    );
   }
 
   // ============================================
-  // REVIEWER OPERATIONS
+  // REPLY TEMPLATES
   // ============================================
 
-  /**
-   * Gets reviewer details by ID.
-   *
-   * @param id - Reviewer ID
-   * @returns Reviewer details including marketing preferences
-   *
-   * @cached TTL: 15 minutes
-   */
-  async getReviewerById(id: number): Promise<{ reviewer: Reviewer }> {
-    const cacheKey = createCacheKey("reviewer", { id });
-
-    return cache.getOrFetch(
-      cacheKey,
-      () => this.request<{ reviewer: Reviewer }>(`/reviewers/${id}`),
-      { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
-    );
+  /** Lists reply templates from the plugin's templates/ directory. */
+  listReplyTemplates(): ReplyTemplate[] {
+    return this.templates.list();
   }
 
   /**
-   * Looks up a reviewer by email address.
+   * Renders a reply template for a review without sending anything.
    *
-   * @param email - Reviewer email address
-   * @returns Reviewer details if found
-   *
-   * @cached TTL: 15 minutes
+   * @param reviewId - Review to reply to (supplies placeholder values)
+   * @param options.template - Template name, or 'auto' / omitted to pick by rating band
+   * @param options.kind - 'public' for replyToReview, 'private' for sendPrivateReply
+   * @returns Rendered subject/body plus warnings for empty placeholders
    */
-  async getReviewerByEmail(email: string): Promise<{ reviewer: Reviewer }> {
-    const cacheKey = createCacheKey("reviewer_email", { email });
-
-    return cache.getOrFetch(
-      cacheKey,
-      () => this.request<{ reviewer: Reviewer }>('/reviewers/find', {
-        params: { email },
-      }),
-      { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
-    );
+  async renderReplyTemplate(
+    reviewId: number,
+    options: { template?: string; kind: ReplyKind }
+  ): Promise<RenderedReply> {
+    const { review } = await this.getReview(reviewId);
+    const template = !options.template || options.template === 'auto'
+      ? this.templates.pickForRating(review.rating, options.kind)
+      : this.templates.get(options.template);
+
+    if (template.kind !== options.kind) {
+      throw new Error(`Template "${template.name}" is for ${template.kind} replies, not ${options.kind}`);
+    }
+    const rendered = this.templates.render(template, review);
+    if (options.kind === 'private' && !rendered.subject) {
+      throw new Error(`Private reply template "${template.name}" has no subject`);
+    }
+    return rendered;
   }
 
   // ============================================
-  // SHOP OPERATIONS
+  // APPROVAL QUEUE
   // ============================================
 
+  /** True when config enables staged mode for all outbound actions. */
+  isStagedMode(): boolean {
+    return this.config.judgeme.stagedMode === true;
+  }
+
+  private getActionQueue(): ActionQueue {
+    if (!this.actionQueue) {
+      this.actionQueue = new ActionQueue(this.dataFile('pending-actions.jsonl'));
+    }
+    return this.actionQueue;
+  }
+
   /**
-   * Gets shop-level review metrics.
-   *
-   * Includes total review count, average rating, and plan info.
-   *
-   * @returns Shop info and aggregate metrics
+   * Queues an outbound action for approval instead of sending it.
    *
-   * @cached TTL: 1 hour
+   * @param action - Reply, private reply or curation to perform later
+   * @param note - Optional context shown to the approver
+   * @returns The queued action with its ID
    */
-  async getShopInfo(): Promise<unknown> {
-    return cache.getOrFetch(
-      "shop_info",
-      () => this.request<unknown>('/shops/info'),
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
-    );
+  stageAction(action: StagedAction, note?: string): QueuedAction {
+    return this.getActionQueue().stage(action, currentUser(), note);
   }
 
-  // ============================================
-  // PRODUCT OPERATIONS
-  // ============================================
+  /** Lists queued actions, optionally by status. */
+  listPendingActions(status?: ActionStatus): QueuedAction[] {
+    return this.getActionQueue().list(status);
+  }
 
   /**
-   * Lists products tracked by Judge.me.
+   * Approves and executes a pending action, recording who approved it.
    *
-   * @param options - Pagination options
-   * @param options.page - Page number (1-indexed)
-   * @param options.perPage - Results per page (max 100)
+   * @param id - Queued action ID
+   * @param by - Approver name (default: current OS user)
+   * @returns The action with its updated status and history
+   */
+  async approveAction(id: string, by: string = currentUser()): Promise<QueuedAction> {
+    const queue = this.getActionQueue();
+    const queued = this.requirePending(id);
+
+    queue.record({ id, event: 'approved', by });
+    try {
+      const result = await this.executeAction(queued.action);
+      queue.record({ id, event: 'executed', by, result });
+    } catch (error) {
+      queue.record({
+        id, event: 'failed', by,
+        error: error instanceof Error ? error.message : String(error),
+        ...(error instanceof JudgemeError ? { errorCode: error.code } : {}),
+      });
+    }
+    return queue.get(id)!;
+  }
+
+  /** Discards a pending action without executing it. */
+  rejectAction(id: string, by: string = currentUser(), reason?: string): QueuedAction {
+    const queue = this.getActionQueue();
+    this.requirePending(id);
+    queue.record({ id, event: 'rejected', by, note: reason });
+    return queue.get(id)!;
+  }
+
+  /** Approves every pending action in the order they were staged. */
+  async approveAllActions(by: string = currentUser()): Promise<QueuedAction[]> {
+    const results: QueuedAction[] = [];
+    for (const action of this.listPendingActions('pending')) {
+      results.push(await this.approveAction(action.id, by));
+    }
+    return results;
+  }
+
+  private requirePending(id: string): QueuedAction {
+    const queued = this.getActionQueue().get(id);
+    if (!queued) {
+      throw new Error(`Unknown pending action: ${id}`);
+    }
+    if (queued.status !== 'pending') {
+      throw new Error(`Action ${id} is already ${queued.status}`);
+    }
+    return queued;
+  }
+
+  private async executeAction(action: StagedAction): Promise<unknown> {
+    switch (action.kind) {
+      case 'reply':
+        return this.replyToReview(action.reviewId, action.body, { force: action.force });
+      case 'private-reply':
+        return this.sendPrivateReply(action.reviewId, action.subject, action.body, { force: action.force });
+      case 'curate':
+        if (action.batch) {
+          const batch = this.getJournal().getPlan(action.batch.id);
+          // Undo restores what apply set; apply reads the live value itself
+          const previous = action.batch.action === 'undo' ? batch?.status : undefined;
+          return this.curateInBatch(action.batch.id, action.batch.action, action.reviewId, action.status, previous);
+        }
+        return this.curateReview(action.reviewId, action.status);
+      case 'create':
+        return this.createReview(action.review);
+    }
+  }
+
+  // ============================================
+  // BULK CURATION
+  // ============================================
+
+  private getJournal(): CurationJournal {
+    if (!this.journal) {
+      this.journal = new CurationJournal(this.dataFile('curation-journal.jsonl'));
+    }
+    return this.journal;
+  }
+
+  /**
+   * Dry run for bulk curation: selects reviews and records a plan.
+   *
+   * Reviews are selected by explicit IDs or by filters (at least one
+   * is required so a bare call can't select the whole shop). Reviews
+   * already in the target state are left out. A filter selection keeps
+   * scanning until `maxItems` reviews match; if more match, the plan is
+   * marked `truncated`. Nothing is changed on Judge.me; apply the
+   * returned batch with applyBulkCuration.
+   *
+   * @param status - Target curation status
+   * @param selector - IDs and/or filters, keyword and reviewer email
+   * @returns The journaled plan and the reviews it would change
+   */
+  async planBulkCuration(
+    status: 'ok' | 'spam',
+    selector: BulkCurationSelector
+  ): Promise<{ plan: CurationPlan; reviews: Review[] }> {
+    const { ids, keyword, reviewerEmail, shopifyProductId, maxItems, ...filters } = selector;
+    const hasFilters = activeFilters(filters).length > 0 || keyword || reviewerEmail || shopifyProductId;
+    if (!ids?.length && !hasFilters) {
+      throw new JudgemeValidationError('Bulk curation needs review IDs or at least one filter', {
+        suggestion: 'Pass --ids/--file, or narrow the selection with filters, --keyword or --reviewer-email.',
+      });
+    }
+    if (keyword) parseQuery(keyword);
+
+    // Email and keyword are checked per review so the cap counts matches, not reviews scanned
+    const email = reviewerEmail?.toLowerCase();
+    const selected = (r: Review): boolean =>
+      (!email || r.reviewer?.email?.toLowerCase() === email) &&
+      (!keyword || rankReviews([r], keyword).length > 0) &&
+      (r.curated ?? null) !== status;
+
+    const reviews: Review[] = [];
+    let truncated = false;
+    if (ids?.length) {
+      const now = Date.now();
+      for (const id of ids) {
+        const { review } = await this.getReview(id);
+        if (shopifyProductId !== undefined && review.product_external_id !== shopifyProductId) continue;
+        if (matchesFilters(review, filters, now) && selected(review)) reviews.push(review);
+      }
+    } else {
+      const cap = maxItems ?? BULK_CURATION_MAX_ITEMS;
+      for await (const review of this.iterateReviews({ ...filters, shopifyProductId })) {
+        if (!selected(review)) continue;
+        if (reviews.length >= cap) {
+          truncated = true;
+          break;
+        }
+        reviews.push(review);
+      }
+    }
+
+    const plan = this.getJournal().createPlan({
+      status,
+      selector: { ...selector },
+      reviews: reviews.map(r => ({ id: r.id, curated: (r.curated ?? null) as CuratedState })),
+      ...(truncated ? { truncated } : {}),
+    });
+    return { plan, reviews };
+  }
+
+  /**
+   * Applies a bulk curation plan created by a dry run.
+   *
+   * Each review's live `curated` value is journaled before it is changed.
+   * Reviews already applied in this batch are skipped, so a partially
+   * failed batch can be re-run. In staged mode nothing is sent: each
+   * review is queued as its own curation for approval instead.
+   *
+   * @param batchId - Batch ID returned by planBulkCuration
+   *
+   * @invalidates what curateReview does, for each review changed
+   */
+  async applyBulkCuration(batchId: string): Promise<BulkCurationResult> {
+    const journal = this.getJournal();
+    const plan = journal.getPlan(batchId);
+    if (!plan) {
+      throw new Error(`Unknown bulk curation batch: ${batchId}`);
+    }
+
+    const done = new Set(journal.getChanges(batchId, 'apply').map(c => c.reviewId));
+    const result: BulkCurationResult = { batchId, action: 'apply', changed: [], skipped: [], failed: [] };
+    const pending = this.isStagedMode() ? this.pendingBatchCurations(batchId, 'apply') : null;
+
+    for (const { id } of plan.reviews) {
+      if (done.has(id) || pending?.has(id)) {
+        result.skipped.push(id);
+        continue;
+      }
+      if (pending) {
+        const queued = this.stageAction(
+          { kind: 'curate', reviewId: id, status: plan.status, batch: { id: batchId, action: 'apply' } },
+          `bulk-curate --confirm ${batchId}`
+        );
+        (result.staged ??= []).push({ id, actionId: queued.id });
+        continue;
+      }
+      try {
+        result.changed.push(await this.curateInBatch(batchId, 'apply', id, plan.status));
+      } catch (error) {
+        result.failed.push({ id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Restores the `curated` values journaled when a batch was applied.
+   * In staged mode each restore is queued for approval instead.
+   *
+   * @param batchId - Batch ID to undo
+   *
+   * @invalidates what curateReview does, for each review changed
+   */
+  async undoBulkCuration(batchId: string): Promise<BulkCurationResult> {
+    const journal = this.getJournal();
+    if (!journal.getPlan(batchId)) {
+      throw new Error(`Unknown bulk curation batch: ${batchId}`);
+    }
+
+    const applied = journal.getChanges(batchId, 'apply');
+    const undone = new Set(journal.getChanges(batchId, 'undo').map(c => c.reviewId));
+    const result: BulkCurationResult = { batchId, action: 'undo', changed: [], skipped: [], failed: [] };
+    const pending = this.isStagedMode() ? this.pendingBatchCurations(batchId, 'undo') : null;
+
+    for (const change of [...applied].reverse()) {
+      if (undone.has(change.reviewId) || pending?.has(change.reviewId)) {
+        result.skipped.push(change.reviewId);
+        continue;
+      }
+      if (pending) {
+        const queued = this.stageAction(
+          { kind: 'curate', reviewId: change.reviewId, status: change.previous, batch: { id: batchId, action: 'undo' } },
+          `bulk-curate --undo ${batchId}`
+        );
+        (result.staged ??= []).push({ id: change.reviewId, actionId: queued.id });
+        continue;
+      }
+      try {
+        result.changed.push(await this.curateInBatch(batchId, 'undo', change.reviewId, change.previous, change.status));
+      } catch (error) {
+        result.failed.push({ id: change.reviewId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Curates one review of a batch and journals the change, failed or not.
+   * Applying reads the live `curated` value first so undo can restore it;
+   * undo passes the value the batch set. Approved staged curations from
+   * a batch also run through here.
+   */
+  private async curateInBatch(
+    batchId: string,
+    action: 'apply' | 'undo',
+    reviewId: number,
+    status: CuratedState,
+    previous?: CuratedState
+  ): Promise<BulkCurationResult['changed'][number]> {
+    const journal = this.getJournal();
+    try {
+      if (previous === undefined) {
+        const { review } = await this.request<{ review: Review }>(`/reviews/${reviewId}`);
+        previous = (review.curated ?? null) as CuratedState;
+      }
+      await this.curateReview(reviewId, status);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      journal.recordChange({ batchId, reviewId, action, previous: previous ?? null, status, error: message });
+      throw error;
+    }
+    journal.recordChange({ batchId, reviewId, action, previous, status });
+    return { id: reviewId, previous, status };
+  }
+
+  /** Review IDs of this batch's curations still waiting for approval. */
+  private pendingBatchCurations(batchId: string, action: 'apply' | 'undo'): Set<number> {
+    const ids = new Set<number>();
+    for (const { action: staged } of this.listPendingActions('pending')) {
+      if (staged.kind === 'curate' && staged.batch?.id === batchId && staged.batch.action === action) {
+        ids.add(staged.reviewId);
+      }
+    }
+    return ids;
+  }
+
+  // ============================================
+  // REVIEWER OPERATIONS
+  // ============================================
+
+  /**
+   * Gets reviewer details by ID.
+   *
+   * @param id - Reviewer ID
+   * @returns Reviewer details including marketing preferences
+   *
+   * @cached TTL: 15 minutes
+   */
+  async getReviewerById(id: number): Promise<{ reviewer: Reviewer }> {
+    return this.cached(
+      "reviewer",
+      { id },
+      () => this.request<{ reviewer: Reviewer }>(`/reviewers/${id}`)
+    );
+  }
+
+  /**
+   * Looks up a reviewer by email address.
+   *
+   * @param email - Reviewer email address
+   * @returns Reviewer details if found
+   *
+   * @cached TTL: 15 minutes
+   */
+  async getReviewerByEmail(email: string): Promise<{ reviewer: Reviewer }> {
+    return this.cached(
+      "reviewer_email",
+      { email },
+      () => this.request<{ reviewer: Reviewer }>('/reviewers/find', {
+        params: { email },
+      })
+    );
+  }
+
+  /**
+   * Builds a support-facing profile: the reviewer record, every review
+   * they wrote (ratings, products, dates, our replies), the average
+   * rating they give, and private replies we've sent them (from the
+   * audit log).
+   *
+   * @param options.source - 'api' scans recent review pages (up to maxPages);
+   *   'local' reads every review from the mirror (default: api)
+   * @param options.maxPages - API pages to scan (default: 10)
+   */
+  async getReviewerProfile(
+    ref: { id?: number; email?: string },
+    options: { source?: 'api' | 'local'; maxPages?: number } = {}
+  ): Promise<ReviewerProfile> {
+    if (ref.id === undefined && !ref.email) throw new Error('Reviewer profile needs an ID or email');
+    const { reviewer } = ref.id !== undefined
+      ? await this.getReviewerById(ref.id)
+      : await this.getReviewerByEmail(ref.email!);
+
+    let reviews: Review[] = [];
+    let complete = false;
+    if (options.source === 'local') {
+      reviews = this.getMirror().listReviewsByReviewer(reviewer.id);
+      complete = true;
+    } else {
+      // The API has no reviewer filter, so scan recent pages
+      const pages = paginate(
+        page => this.fetchReviewsPage({ page, perPage: MAX_PER_PAGE }).then(r => r.reviews),
+        { perPage: MAX_PER_PAGE, maxPages: options.maxPages || FILTER_SCAN_MAX_PAGES }
+      );
+      for await (const { items, last } of pages) {
+        reviews.push(...items.filter(r => r.reviewer?.id === reviewer.id));
+        if (last) complete = true;
+      }
+    }
+
+    const ratings = reviews.map(r => r.rating);
+    const dates = reviews.map(r => r.created_at).sort();
+    return {
+      reviewer,
+      reviews,
+      stats: {
+        reviewCount: reviews.length,
+        averageRating: ratings.length
+          ? Math.round((ratings.reduce((a, b) => a + b, 0) / ratings.length) * 100) / 100
+          : null,
+        repliedCount: reviews.filter(r => r.reply?.body).length,
+        firstReviewAt: dates[0] ?? null,
+        lastReviewAt: dates[dates.length - 1] ?? null,
+      },
+      privateReplies: this.queryAuditLog({ reviewerId: reviewer.id, action: 'private-reply' }),
+      complete,
+    };
+  }
+
+  // ============================================
+  // SHOP OPERATIONS
+  // ============================================
+
+  /**
+   * Gets shop-level review metrics.
+   *
+   * Includes total review count, average rating, and plan info.
+   *
+   * @returns Shop info and aggregate metrics
+   *
+   * @cached TTL: 1 hour
+   */
+  async getShopInfo(): Promise<unknown> {
+    return this.cached(
+      "shop_info",
+      null,
+      () => this.request<unknown>('/shops/info'),
+      () => ({ kind: 'stats' })
+    );
+  }
+
+  // ============================================
+  // PRODUCT OPERATIONS
+  // ============================================
+
+  /**
+   * Lists products tracked by Judge.me.
+   *
+   * @param options - Pagination options
+   * @param options.page - Page number (1-indexed)
+   * @param options.perPage - Results per page (max 100)
    * @returns Paginated product list with review stats
    *
    * @cached TTL: 1 hour
@@ -500,13 +1687,12 @@ export class JudgemeClient {
     page?: number;
     perPage?: number;
   } = {}): Promise<ProductsResponse> {
-    const cacheKey = createCacheKey("products", {
-      page: options.page,
-      perPage: options.perPage,
-    });
-
-    return cache.getOrFetch(
-      cacheKey,
+    return this.cached(
+      "products",
+      {
+        page: options.page,
+        perPage: options.perPage,
+      },
       async () => {
         const params: Record<string, string | number | undefined> = {
           page: options.page,
@@ -515,7 +1701,8 @@ export class JudgemeClient {
 
         return this.request<ProductsResponse>('/products', { params });
       },
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
+      // Products carry review counts and average ratings
+      () => ({ kind: 'stats' })
     );
   }
 
@@ -523,47 +1710,184 @@ export class JudgemeClient {
    * Looks up a Judge.me product by Shopify product ID.
    *
    * Judge.me uses internal product IDs, but most operations reference
-   * Shopify's external product ID. This method converts between them.
+   * Shopify's external product ID. This method converts between them
+   * using the local product index.
    *
    * @param externalId - Shopify product ID
    * @returns Judge.me product or null if not found
-   *
-   * @cached TTL: 1 hour
    */
   async getProductByExternalId(externalId: number): Promise<Product | null> {
-    const cacheKey = createCacheKey("product_external", { externalId });
+    const entry = await this.findProduct({ externalId });
+    return entry
+      ? {
+        id: entry.id,
+        external_id: entry.externalId,
+        title: entry.title,
+        handle: entry.handle,
+        reviews_count: entry.reviewsCount,
+        average_rating: entry.averageRating,
+      }
+      : null;
+  }
 
-    return cache.getOrFetch(
-      cacheKey,
-      async () => {
-        // Search through products to find one matching the Shopify external_id
-        // Judge.me doesn't have a direct lookup endpoint, so we page through products
-        let page = 1;
-        const perPage = 100;
+  /**
+   * Finds a product by Judge.me ID, Shopify ID or handle in the product
+   * index, building it on first use. A miss refreshes the index (at most
+   * every 15 minutes) in case the product was added since.
+   *
+   * @bypasses cache
+   */
+  async findProduct(ref: ProductRef): Promise<ProductIndexEntry | null> {
+    const index = this.getProductIndex();
+    if (!index.builtAt) {
+      await this.refreshProductIndex();
+      return index.find(ref);
+    }
 
-        while (true) {
-          const response = await this.listProducts({ page, perPage });
+    const found = index.find(ref);
+    if (found) return found;
 
-          const product = response.products.find(p => p.external_id === externalId);
-          if (product) {
-            return product;
-          }
+    const refreshedAt = index.refreshedAt ? Date.parse(index.refreshedAt) : 0;
+    if (Date.now() - refreshedAt < PRODUCT_INDEX_MISS_REFRESH_MS) return null;
+    await this.refreshProductIndex({ until: ref });
+    return index.find(ref);
+  }
 
-          // If we got fewer than perPage, we've reached the end
-          if (response.products.length < perPage) {
-            return null;
-          }
+  /**
+   * Fuzzy product title search against the product index.
+   *
+   * @param query - Words from the product title (typos tolerated)
+   * @param limit - Maximum matches (default: 5)
+   */
+  async searchProducts(query: string, limit = 5): Promise<ProductTitleMatch[]> {
+    const index = this.getProductIndex();
+    if (!index.builtAt) await this.refreshProductIndex();
+    return index.searchTitle(query, limit);
+  }
 
-          page++;
+  /**
+   * Walks /products and merges every page into the product index.
+   *
+   * A complete walk also drops products that no longer exist. With
+   * `until`, the walk stops as soon as that product turns up. A walk cut
+   * short by the page cap still counts as a build, so lookups don't
+   * repeat it on every call; misses refresh it as usual.
+   *
+   * @bypasses cache
+   */
+  async refreshProductIndex(options: { until?: ProductRef } = {}): Promise<{
+    products: number;
+    pagesFetched: number;
+    complete: boolean;
+  }> {
+    const index = this.getProductIndex();
+    const seen: Product[] = [];
+    let pagesFetched = 0;
+
+    const pages = paginate(
+      page => this.request<ProductsResponse>('/products', {
+        params: { page, per_page: MAX_PER_PAGE },
+      }).then(r => r.products),
+      { perPage: MAX_PER_PAGE, maxPages: PRODUCT_SCAN_MAX_PAGES }
+    );
 
-          // Safety limit to prevent infinite loops
-          if (page > 100) {
-            return null;
-          }
-        }
-      },
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
+    for await (const { items, last } of pages) {
+      pagesFetched++;
+      seen.push(...items);
+      index.merge(items);
+      if (last) {
+        index.merge(seen, { complete: true });
+        return { products: seen.length, pagesFetched, complete: true };
+      }
+      if (options.until && index.find(options.until)) {
+        return { products: seen.length, pagesFetched, complete: false };
+      }
+    }
+    index.merge([], { capped: true });
+    return { products: seen.length, pagesFetched, complete: false };
+  }
+
+  private getProductIndex(): ProductIndex {
+    if (!this.productIndex) {
+      this.productIndex = new ProductIndex(this.dataFile('product-index.json'));
+    }
+    return this.productIndex;
+  }
+
+  // ============================================
+  // ITERATORS
+  // ============================================
+
+  /**
+   * Iterates every review matching the filters, fetching pages on demand.
+   *
+   * Pages come from the same cache as listReviews. Client-side filters
+   * are applied as pages arrive, and a `createdAfter` filter ends the
+   * walk at the first page older than the cutoff.
+   *
+   * @param options.concurrency - Pages fetched ahead in parallel (default: 1)
+   * @param options.maxItems - Stop after yielding this many reviews
+   * @param options.maxPages - Stop after this many API pages
+   */
+  async *iterateReviews(options: {
+    productId?: number;
+    shopifyProductId?: number;
+    concurrency?: number;
+    maxItems?: number;
+    maxPages?: number;
+  } & ReviewFilters = {}): AsyncGenerator<Review> {
+    const judgemeProductId = await this.resolveProductId(options);
+    const { api, client } = splitFilters(options);
+    const now = Date.now();
+    const cutoff = client.createdAfter !== undefined ? resolveDateFilter(client.createdAfter, now) : null;
+    let yielded = 0;
+
+    const pages = paginate(
+      page => this.fetchReviewsPage({
+        page,
+        perPage: MAX_PER_PAGE,
+        productId: judgemeProductId,
+        rating: api.rating,
+      }).then(r => r.reviews),
+      { perPage: MAX_PER_PAGE, concurrency: options.concurrency, maxPages: options.maxPages }
     );
+
+    for await (const { items } of pages) {
+      for (const review of items) {
+        if (!matchesFilters(review, client, now)) continue;
+        yield review;
+        if (options.maxItems !== undefined && ++yielded >= options.maxItems) return;
+      }
+      const oldest = items[items.length - 1];
+      if (cutoff !== null && oldest && Date.parse(oldest.created_at) < cutoff) return;
+    }
+  }
+
+  /**
+   * Iterates every product tracked by Judge.me, fetching pages on demand.
+   *
+   * @param options.concurrency - Pages fetched ahead in parallel (default: 1)
+   * @param options.maxItems - Stop after yielding this many products
+   * @param options.maxPages - Stop after this many API pages
+   */
+  async *iterateProducts(options: {
+    concurrency?: number;
+    maxItems?: number;
+    maxPages?: number;
+  } = {}): AsyncGenerator<Product> {
+    let yielded = 0;
+
+    const pages = paginate(
+      page => this.listProducts({ page, perPage: MAX_PER_PAGE }).then(r => r.products),
+      { perPage: MAX_PER_PAGE, concurrency: options.concurrency, maxPages: options.maxPages }
+    );
+
+    for await (const { items } of pages) {
+      for (const product of items) {
+        yield product;
+        if (options.maxItems !== undefined && ++yielded >= options.maxItems) return;
+      }
+    }
   }
 
   // ============================================
@@ -577,53 +1901,877 @@ export class JudgemeClient {
    * pages through reviews and filters client-side. Use sparingly due
    * to high API call volume for large result sets.
    *
+   * Supports boolean queries, quoted phrases, negation, stemming and
+   * optional fuzzy matching (see review-search.ts). Results are ranked
+   * by relevance with a highlighted snippet per hit. Filters other than
+   * exact rating are applied client-side before ranking.
+   *
    * @param options - Search options
-   * @param options.search - Text to search for in review title/body
+   * @param options.search - Query to match against review title/body
    * @param options.rating - Filter by star rating (1-5)
    * @param options.maxPages - Max pages to search (default: 10)
-   * @returns Matching reviews with search metadata
+   * @param options.fuzzy - Allow small typos in query terms
+   * @param options.reviewerName - Only reviews whose reviewer name contains this
+   * @param options.productTitle - Only reviews whose product title contains this
+   * @returns Ranked matches with search metadata
    */
   async searchReviews(options: {
     search: string;
-    rating?: number;
     maxPages?: number;  // Limit pages to search (default 10)
-  }): Promise<{ reviews: Review[]; pagesSearched: number; totalMatches: number }> {
-    const searchTerm = options.search.toLowerCase();
-    const maxPages = options.maxPages || 10;
-    const perPage = 100;
-    const matchingReviews: Review[] = [];
-    let page = 1;
-
-    while (page <= maxPages) {
-      const response = await this.listReviews({
-        page,
-        perPage,
-        rating: options.rating,
-      });
+  } & ReviewFilters & SearchOptions): Promise<SearchResult> {
+    // Parse up front so a malformed query fails before any API calls
+    parseQuery(options.search);
+
+    const { api, client, report } = splitFilters(options);
+    const scan = await this.scanFilteredReviews(
+      { rating: api.rating },
+      client,
+      { maxPages: options.maxPages || 10 }
+    );
 
-      // Filter reviews by search term in body or title
-      const matches = response.reviews.filter(r =>
-        r.body?.toLowerCase().includes(searchTerm) ||
-        r.title?.toLowerCase().includes(searchTerm)
+    const hits = rankReviews(scan.matches, options.search, options);
+
+    return {
+      reviews: hits.map(h => h.review),
+      hits,
+      pagesSearched: scan.pagesScanned,
+      totalMatches: hits.length,
+      filters: report,
+    };
+  }
+
+  // ============================================
+  // ANALYTICS
+  // ============================================
+
+  /**
+   * Computes rating distribution, trend, velocity, verified share and
+   * reply stats for reviews created in a date range, overall and per
+   * product.
+   *
+   * @param options.createdAfter - Range start: ISO date or duration like 30d (default: 90d)
+   * @param options.createdBefore - Range end (default: now)
+   * @param options.bucket - Trend granularity (default: week)
+   * @param options.source - Read from the API or the local mirror (default: api)
+   * @param options.maxPages - API page cap for the scan (default: no cap)
+   *
+   * @bypasses cache (pages come from the listReviews cache)
+   */
+  async getAnalytics(options: AnalyticsOptions = {}): Promise<AnalyticsReport> {
+    const { selection, window } = analyticsWindow(options);
+    const reviews = await this.collectReviews(selection, options.source);
+    return computeAnalytics(reviews, window);
+  }
+
+  /** Gathers every matching review from the API or the local mirror. */
+  private async collectReviews(
+    selection: { shopifyProductId?: number; maxItems?: number; maxPages?: number } & ReviewFilters,
+    source: 'api' | 'local' = 'api'
+  ): Promise<Review[]> {
+    if (source === 'local') return [...this.getMirror().iterateReviews(selection)];
+    const reviews: Review[] = [];
+    for await (const review of this.iterateReviews(selection)) {
+      reviews.push(review);
+    }
+    return reviews;
+  }
+
+  // ============================================
+  // SENTIMENT AND TOPICS
+  // ============================================
+
+  /** Sentiment and topic tags for one review (local, deterministic). */
+  tagReview(review: Pick<Review, 'title' | 'body'>): ReviewTags {
+    return this.getTagger().tag(review);
+  }
+
+  /**
+   * Tags matching reviews with sentiment and topics and totals the
+   * labels, so low ratings can be traced to what they talk about.
+   *
+   * @param options.source - Read from the API or the local mirror (default: api)
+   * @param options.maxItems - Stop after this many reviews
+   */
+  async analyzeReviews(options: {
+    shopifyProductId?: number;
+    source?: 'api' | 'local';
+    maxItems?: number;
+    maxPages?: number;
+  } & ReviewFilters = {}): Promise<ReviewAnalysis> {
+    const { source, ...selection } = options;
+    const reviews = await this.collectReviews(selection, source);
+    const sentiment: Record<SentimentLabel, number> = { positive: 0, negative: 0, neutral: 0, mixed: 0 };
+    const topics: Record<string, number> = {};
+
+    const tagged = reviews.map(review => {
+      const tags = this.tagReview(review);
+      sentiment[tags.sentiment]++;
+      for (const topic of tags.topics) topics[topic] = (topics[topic] ?? 0) + 1;
+      return { review, tags };
+    });
+    return { reviews: tagged, sentiment, topics };
+  }
+
+  /**
+   * Per-product topic summary: how often each topic comes up, the
+   * average rating of reviews mentioning it, and how many are negative.
+   */
+  async getTopicSummary(options: {
+    shopifyProductId?: number;
+    source?: 'api' | 'local';
+    maxItems?: number;
+    maxPages?: number;
+  } & ReviewFilters = {}): Promise<ProductTopics[]> {
+    const { source, ...selection } = options;
+    return summarizeTopics(await this.collectReviews(selection, source), this.getTagger());
+  }
+
+  private getTagger(): ReviewTagger {
+    if (!this.tagger) {
+      this.tagger = new ReviewTagger(loadTopicDictionary(join(__dirname, '..', 'topics.json')));
+    }
+    return this.tagger;
+  }
+
+  // ============================================
+  // SPAM SCAN
+  // ============================================
+
+  /**
+   * Scores matching reviews on spam heuristics (duplicate text, email
+   * domain and reviewer bursts, unverified 5-star clusters, links and
+   * phone numbers) and returns the likely ones, highest score first.
+   * Nothing is curated; feed the IDs to planBulkCuration to act on them.
+   *
+   * @param options.maxItems - Reviews to scan (default: 1000)
+   * @param options.minScore - Lowest score returned (default: 0.3)
+   */
+  async scanForSpam(options: {
+    shopifyProductId?: number;
+    source?: 'api' | 'local';
+    maxItems?: number;
+    maxPages?: number;
+    minScore?: number;
+    includeCurated?: boolean;
+  } & ReviewFilters = {}): Promise<{ scanned: number; candidates: SpamCandidate[] }> {
+    const { source, minScore, includeCurated, ...selection } = options;
+    const reviews = await this.collectReviews({ ...selection, maxItems: selection.maxItems ?? 1000 }, source);
+    return {
+      scanned: reviews.length,
+      candidates: scoreSpamCandidates(reviews, { minScore, includeCurated }),
+    };
+  }
+
+  // ============================================
+  // INJECTION SCAN
+  // ============================================
+
+  /**
+   * Scans review titles, bodies, reviewer names and product titles for
+   * prompt-injection patterns (built-in plus injection-patterns.json),
+   * reporting which patterns matched in which field.
+   *
+   * @param options.detector - Extra verdict per field (the CLI passes the
+   *   shared untrusted-field detector); flagged fields are reported as
+   *   `shared-detector` matches
+   * @param options.queue - Stage a curate-to-spam action for each flagged
+   *   review in the approval queue (skips reviews already queued)
+   */
+  async scanForInjection(options: {
+    shopifyProductId?: number;
+    source?: 'api' | 'local';
+    maxItems?: number;
+    maxPages?: number;
+    includeProducts?: boolean;
+    queue?: boolean;
+    detector?: (field: string, text: string) => boolean;
+  } & ReviewFilters = {}): Promise<InjectionScanResult> {
+    const { source, includeProducts = true, queue, detector, ...selection } = options;
+    const patterns = loadInjectionPatterns(join(__dirname, '..', 'injection-patterns.json'));
+    const scan = (fields: Record<string, string | null | undefined>): FieldFinding[] => {
+      const findings = scanFields(fields, patterns);
+      if (!detector) return findings;
+      for (const [field, text] of Object.entries(fields)) {
+        if (!text || !detector(field, text)) continue;
+        const finding = findings.find(f => f.field === field);
+        const match = { id: 'shared-detector', excerpt: '' };
+        if (finding) finding.matches.unshift(match);
+        else findings.push({ field, matches: [match] });
+      }
+      return findings;
+    };
+
+    const reviews = await this.collectReviews(selection, source);
+    const flaggedReviews = reviews
+      .map(review => ({
+        review,
+        findings: scan({ title: review.title, body: review.body, 'reviewer.name': review.reviewer?.name }),
+      }))
+      .filter(r => r.findings.length > 0);
+
+    let productsScanned = 0;
+    const flaggedProducts: InjectionScanResult['products'] = [];
+    if (includeProducts) {
+      const index = this.getProductIndex();
+      if (!index.builtAt) await this.refreshProductIndex();
+      for (const product of index.all()) {
+        productsScanned++;
+        const findings = scan({ title: product.title, handle: product.handle });
+        if (findings.length > 0) flaggedProducts.push({ product, findings });
+      }
+    }
+
+    const queued: InjectionScanResult['queued'] = [];
+    if (queue) {
+      const alreadyQueued = new Set(
+        this.listPendingActions('pending').flatMap(({ action }) => action.kind === 'curate' ? [action.reviewId] : [])
       );
+      for (const { review, findings } of flaggedReviews) {
+        if (alreadyQueued.has(review.id) || review.curated === 'spam') continue;
+        const patternsHit = [...new Set(findings.flatMap(f => f.matches.map(m => m.id)))];
+        const action = this.stageAction(
+          { kind: 'curate', reviewId: review.id, status: 'spam' },
+          `Possible prompt injection (${patternsHit.join(', ')})`
+        );
+        queued.push({ reviewId: review.id, actionId: action.id });
+      }
+    }
 
-      matchingReviews.push(...matches);
+    return {
+      scanned: { reviews: reviews.length, products: productsScanned },
+      reviews: flaggedReviews,
+      products: flaggedProducts,
+      queued,
+    };
+  }
 
-      // If we got fewer than perPage, we've reached the end
-      if (response.reviews.length < perPage) {
+  // ============================================
+  // EXPORT
+  // ============================================
+
+  /**
+   * Streams matching reviews to a CSV, JSONL or Google Product Reviews
+   * XML file. Pages are written as they arrive.
+   *
+   * @param path - Output file (replaced once the export completes)
+   * @param options.includeEmails - Keep reviewer emails (CSV/JSONL only; default: dropped)
+   * @param options.source - Read from the API or the local mirror (default: api)
+   *
+   * @bypasses cache (pages come from the listReviews cache)
+   */
+  async exportReviews(path: string, options: {
+    format: ExportFormat;
+    includeEmails?: boolean;
+    source?: 'api' | 'local';
+    productId?: number;
+    shopifyProductId?: number;
+    concurrency?: number;
+    maxItems?: number;
+  } & ReviewFilters): Promise<ExportResult> {
+    const { format, includeEmails, source, ...selection } = options;
+    const reviews = source === 'local'
+      ? this.getMirror().iterateReviews(selection)
+      : this.iterateReviews(selection);
+
+    return writeExport(reviews, path, {
+      format,
+      includeEmails,
+      shopDomain: this.config.judgeme.shopDomain,
+      resolveHandle: async externalId => (await this.findProduct({ externalId }))?.handle || null,
+    });
+  }
+
+  // ============================================
+  // IMPORT
+  // ============================================
+
+  /**
+   * Creates a review on Judge.me.
+   *
+   * @param payload - Review fields; `id` is the Shopify product ID
+   *
+   * @invalidates list pages and counts in the product's scope, stats
+   * @audited
+   */
+  async createReview(payload: ReviewCreatePayload): Promise<unknown> {
+    const body = payload as unknown as Record<string, unknown>;
+    const result = await this.audited(
+      { action: 'create', productExternalId: payload.id, payload: body },
+      () => this.request<unknown>('/reviews', { method: 'POST', body })
+    );
+    this.invalidateFor({ created: true, productId: this.indexedProductId(payload.id), rating: payload.rating });
+    return result;
+  }
+
+  /**
+   * Imports reviews from a CSV file (plain, or a Yotpo/Stamped/Okendo export).
+   *
+   * Every row is validated (rating 1-5, email, body, product known to
+   * Judge.me) and rows that fail, or that Judge.me rejects, are written
+   * with their errors to a JSONL error file. Progress is saved after each
+   * row so a rerun on the same file resumes where the last one stopped.
+   * In staged mode valid rows are queued for approval instead of created.
+   *
+   * @param path - CSV file to import
+   * @param options.platform - Column layout (default: csv)
+   * @param options.columns - Field-to-header overrides
+   * @param options.dryRun - Validate only; nothing is sent and no progress is saved
+   * @param options.restart - Ignore saved progress and start from the first row
+   * @param options.errorsPath - Error file (default: <path>.errors.jsonl, or
+   *   <path>.dry-run.errors.jsonl for dry runs so a real import's file is kept)
+   *
+   * @bypasses cache
+   */
+  async importReviews(path: string, options: {
+    platform?: ImportPlatform;
+    columns?: Partial<Record<ImportField, string>>;
+    dryRun?: boolean;
+    restart?: boolean;
+    errorsPath?: string;
+    limit?: number;
+  } = {}): Promise<ImportResult> {
+    if (!existsSync(path)) throw new Error(`Import file not found: ${path}`);
+    const platform = options.platform ?? 'csv';
+    const errorsPath = options.errorsPath ?? `${path}${options.dryRun ? '.dry-run' : ''}.errors.jsonl`;
+    const staging = !options.dryRun && this.isStagedMode();
+    const fingerprint = fileFingerprint(path);
+    const progressStore = new ImportProgressStore(this.dataFile(`import-progress-${fingerprint}.json`));
+    if (options.restart) progressStore.clear();
+
+    const saved = options.dryRun ? null : progressStore.load(fingerprint);
+    const progress: ImportProgress = saved ?? {
+      file: path, fingerprint, lastRow: 0, imported: 0, failed: 0, updatedAt: new Date().toISOString(),
+    };
+    const resumedFrom = progress.lastRow;
+    // Fresh runs (and every dry run) start a fresh error file; resumed runs keep appending
+    if (resumedFrom === 0) writeFileSync(errorsPath, '', 'utf-8');
+
+    let header: string[] | null = null;
+    let columns: ReturnType<typeof resolveColumns> = {};
+    let row = 0;
+    let processed = 0;
+    let valid = 0;
+    let failed = 0;
+    let imported = 0;
+    let staged = 0;
+    let stoppedEarly = false;
+
+    for await (const cells of parseCsv(path)) {
+      if (!header) {
+        header = cells;
+        columns = resolveColumns(header, platform, options.columns);
+        continue;
+      }
+      row++;
+      if (row <= resumedFrom) continue;
+      if (options.limit !== undefined && processed >= options.limit) {
+        stoppedEarly = true;
         break;
       }
+      processed++;
 
-      page++;
+      const { payload, errors } = mapRow(cells, columns);
+      if (payload && !(await this.getProductByExternalId(payload.id))) {
+        errors.push(`product ${payload.id} is not a Judge.me product`);
+      }
+
+      if (payload && errors.length === 0) {
+        valid++;
+        if (staging) {
+          this.stageAction({ kind: 'create', review: payload }, `import-reviews ${path} row ${row}`);
+          staged++;
+        } else if (!options.dryRun) {
+          try {
+            await this.createReview(payload);
+            imported++;
+          } catch (error) {
+            // Typed errors that end the run (bad token, budget) stop the import here
+            if (error instanceof JudgemeError && !['VALIDATION', 'NOT_FOUND', 'DUPLICATE', 'API'].includes(error.code)) {
+              throw error;
+            }
+            errors.push(error instanceof Error ? error.message : String(error));
+          }
+        }
+      }
+
+      if (errors.length > 0) {
+        failed++;
+        const record = Object.fromEntries(header.map((name, i) => [name, cells[i] ?? '']));
+        appendJsonl(errorsPath, { row, errors, record } satisfies ImportRowError);
+      }
+
+      if (!options.dryRun) {
+        progress.lastRow = row;
+        progress.imported += errors.length === 0 && !staging ? 1 : 0;
+        progress.staged = (progress.staged ?? 0) + (errors.length === 0 && staging ? 1 : 0);
+        progress.failed += errors.length > 0 ? 1 : 0;
+        progress.updatedAt = new Date().toISOString();
+        progressStore.save(progress);
+      }
     }
 
     return {
-      reviews: matchingReviews,
-      pagesSearched: page,
-      totalMatches: matchingReviews.length,
+      file: path,
+      platform,
+      dryRun: options.dryRun ?? false,
+      resumedFrom,
+      processed,
+      valid,
+      imported,
+      staged,
+      failed,
+      errorsPath: failed > 0 ? errorsPath : null,
+      totals: options.dryRun
+        ? null
+        : { imported: progress.imported, staged: progress.staged ?? 0, failed: progress.failed, lastRow: progress.lastRow },
+      complete: !stoppedEarly,
     };
   }
 
+  // ============================================
+  // ALERTS
+  // ============================================
+
+  /**
+   * Checks alert rules against reviews created since the last check and
+   * returns only new hits. The first check looks back `since` (default 24h).
+   *
+   * Hits are also POSTed to the webhook (option or rules file) when there
+   * are any. If that delivery fails the watermark is left alone, so the
+   * same hits are reported again next time.
+   *
+   * @param options.rulesPath - Rules file (default: alert-rules.json beside config.json)
+   * @param options.dryRun - Evaluate without sending the webhook or moving the watermark
+   *
+   * @bypasses cache
+   */
+  async checkAlerts(options: {
+    rulesPath?: string;
+    since?: string;
+    webhookUrl?: string;
+    dryRun?: boolean;
+  } = {}): Promise<AlertCheckResult> {
+    const rulesPath = options.rulesPath ?? join(__dirname, '..', 'alert-rules.json');
+    const { rules, webhook } = loadAlertRules(rulesPath);
+    const stateStore = new AlertStateStore(this.dataFile('alerts-state.json'));
+    const state = stateStore.load();
+    const checkedAt = new Date().toISOString();
+    const cutoff = state.watermark
+      ? Date.parse(state.watermark)
+      : resolveDateFilter(options.since ?? '24h');
+
+    // Fresh pages, newest first, until one reaches back past the cutoff. No
+    // page cap: the watermark moves to the newest review, so anything
+    // between the last page read and the cutoff would never be alerted on
+    const recent: Review[] = [];
+    const pages = paginate(
+      page => this.request<ReviewsResponse>('/reviews', {
+        params: { page, per_page: MAX_PER_PAGE },
+      }).then(r => r.reviews),
+      { perPage: MAX_PER_PAGE }
+    );
+    for await (const { items } of pages) {
+      recent.push(...items.filter(r => Date.parse(r.created_at) >= cutoff));
+      const oldest = items[items.length - 1];
+      if (!oldest || Date.parse(oldest.created_at) < cutoff) break;
+    }
+
+    const fresh = newSinceWatermark(recent, state);
+    const hits: AlertHit[] = evaluateReviewRules(fresh, rules);
+
+    const fired = new Set(state.firedAverages);
+    for (const rule of rules) {
+      if (rule.type !== 'average') continue;
+      let sum = 0;
+      let count = 0;
+      for await (const review of this.iterateReviews({
+        shopifyProductId: rule.productId,
+        createdAfter: `${rule.days}d`,
+      })) {
+        sum += review.rating;
+        count++;
+      }
+      const average = count ? Math.round((sum / count) * 100) / 100 : null;
+      if (average !== null && average < rule.below) {
+        if (!fired.has(rule.id)) {
+          hits.push({
+            ruleId: rule.id, type: 'average', productExternalId: rule.productId,
+            average, below: rule.below, days: rule.days, reviewCount: count,
+          });
+          fired.add(rule.id);
+        }
+      } else {
+        fired.delete(rule.id);
+      }
+    }
+
+    const webhookUrl = options.webhookUrl ?? webhook?.url;
+    const delivery = webhookUrl && hits.length > 0 && !options.dryRun
+      ? await postWebhook(webhookUrl, { source: 'judgeme-review-manager', checkedAt, hits })
+      : undefined;
+
+    const stateSaved = !options.dryRun && (delivery === undefined || delivery.ok);
+    if (stateSaved) {
+      stateStore.save({
+        ...advanceWatermark(state, recent),
+        firedAverages: [...fired],
+        lastCheckedAt: checkedAt,
+      });
+    }
+
+    return {
+      checkedAt,
+      since: state.watermark ?? new Date(cutoff).toISOString(),
+      reviewsChecked: fresh.length,
+      hits,
+      webhook: delivery,
+      stateSaved,
+    };
+  }
+
+  // ============================================
+  // LOCAL MIRROR
+  // ============================================
+
+  /** Returns the local review mirror, opening the database on first use. */
+  getMirror(): ReviewStore {
+    if (!this.store) {
+      this.store = new ReviewStore(this.dataFile('judgeme-mirror.db'));
+    }
+    return this.store;
+  }
+
+  /**
+   * Pulls reviews, reviewers and products into the local mirror.
+   *
+   * Products are always re-fetched in full. Reviews are listed by
+   * creation date, so a curation or reply to an old review can sit on any
+   * page: an incremental run walks every page but only writes reviews
+   * updated since the stored watermark. A full run rewrites everything.
+   * Both delete local rows the API no longer returns (reviews only on a
+   * full run, which is the only one that sees every review).
+   *
+   * @param options.full - Ignore the watermark and re-fetch every review
+   * @returns Counts of synced rows and the new watermark
+   *
+   * @bypasses cache
+   */
+  async syncMirror(options: { full?: boolean } = {}): Promise<SyncResult> {
+    const store = this.getMirror();
+    const since = options.full ? null : store.getState('reviews_updated_at');
+    const sinceTs = since ? Date.parse(since) : null;
+    let pagesFetched = 0;
+
+    let productCount = 0;
+    const productPages = paginate(
+      page => this.request<ProductsResponse>('/products', {
+        params: { page, per_page: MAX_PER_PAGE },
+      }).then(r => r.products),
+      { perPage: MAX_PER_PAGE }
+    );
+    const products: Product[] = [];
+    for await (const { items } of productPages) {
+      pagesFetched++;
+      productCount += store.upsertProducts(items);
+      products.push(...items);
+    }
+    const removedProducts = store.pruneProducts(new Set(products.map(p => p.id)));
+    // Full product list in hand, so the product index gets a free rebuild
+    this.getProductIndex().merge(products, { complete: true });
+
+    let reviewCount = 0;
+    const reviewerIds = new Set<number>();
+    let watermark = since;
+    let watermarkTs = sinceTs;
+    const seenReviewIds = new Set<number>();
+
+    const reviewPages = paginate(
+      page => this.request<ReviewsResponse>('/reviews', {
+        params: { page, per_page: MAX_PER_PAGE },
+      }).then(r => r.reviews),
+      { perPage: MAX_PER_PAGE }
+    );
+    for await (const { items } of reviewPages) {
+      pagesFetched++;
+      items.forEach(r => seenReviewIds.add(r.id));
+
+      const changed = sinceTs === null
+        ? items
+        : items.filter(r => (Date.parse(r.updated_at) || 0) > sinceTs);
+
+      reviewCount += store.upsertReviews(changed);
+      const reviewers = changed.filter(r => r.reviewer?.id).map(r => r.reviewer);
+      store.upsertReviewers(reviewers);
+      reviewers.forEach(r => reviewerIds.add(r.id));
+
+      for (const r of changed) {
+        const ts = Date.parse(r.updated_at);
+        if (!Number.isNaN(ts) && (watermarkTs === null || ts > watermarkTs)) {
+          watermarkTs = ts;
+          watermark = r.updated_at;
+        }
+      }
+    }
+    const removedReviews = sinceTs === null ? store.pruneReviews(seenReviewIds) : 0;
+
+    const syncedAt = new Date().toISOString();
+    if (watermark) store.setState('reviews_updated_at', watermark);
+    store.setState('last_synced_at', syncedAt);
+
+    return {
+      mode: sinceTs === null ? 'full' : 'incremental',
+      products: productCount,
+      reviews: reviewCount,
+      reviewers: reviewerIds.size,
+      removed: { reviews: removedReviews, products: removedProducts },
+      pagesFetched,
+      watermark,
+      syncedAt,
+    };
+  }
+
+  // ============================================
+  // WEBHOOKS
+  // ============================================
+
+  /**
+   * Records a verified webhook delivery: drops cached copies of the review
+   * and of list/count pages, then queues the event. Returns null for a
+   * delivery that was already queued.
+   *
+   * @invalidates the review, list pages containing it, counts and stats in its scope
+   */
+  receiveWebhook(topic: WebhookTopic, review: Review, deliveryId: string): WebhookEvent | null {
+    const queue = this.getWebhookQueue();
+    if (queue.hasDelivery(deliveryId)) return null;
+
+    const created = topic === 'review/created';
+    this.invalidateFor({
+      reviewId: review.id,
+      productId: this.indexedProductId(review.product_external_id),
+      // An update may have changed the rating, so only a new review's rating narrows the scope
+      rating: created ? review.rating : undefined,
+      created,
+      statsChanged: !created,
+    });
+    return queue.append({ topic, reviewId: review.id, deliveryId, review });
+  }
+
+  /**
+   * Starts the local webhook receiver. Deliveries must be signed with
+   * `webhookSecret` (default: the private API token).
+   *
+   * @param options.record - Also append each verified delivery to this JSONL file
+   * @param options.onEvent - Called for every newly queued event
+   */
+  async startWebhookServer(options: {
+    port?: number;
+    host?: string;
+    path?: string;
+    record?: string;
+    onEvent?: (event: WebhookEvent) => void;
+    log?: (line: string) => void;
+  } = {}): Promise<WebhookReceiver> {
+    const secret = this.webhookSecret();
+    return startWebhookReceiver({
+      port: options.port ?? DEFAULT_WEBHOOK_PORT,
+      host: options.host ?? '127.0.0.1',
+      path: options.path ?? DEFAULT_WEBHOOK_PATH,
+      secret,
+      recordPath: options.record,
+      log: options.log ? line => options.log!(this.redact(line)) : undefined,
+      onDelivery: (topic, review, deliveryId) => {
+        const event = this.receiveWebhook(topic, review, deliveryId);
+        if (event) options.onEvent?.(event);
+        return event;
+      },
+    });
+  }
+
+  /**
+   * Queued webhook events, oldest first. With a consumer, only events it
+   * hasn't acknowledged; `ack` then marks the returned events as consumed.
+   */
+  readWebhookEvents(options: { consumer?: string; limit?: number; ack?: boolean } = {}): WebhookEvent[] {
+    if (options.ack && !options.consumer) {
+      throw new JudgemeValidationError('Acknowledging webhook events needs a consumer name', {
+        suggestion: 'Pass --consumer <name>; each consumer keeps its own position in the queue.',
+      });
+    }
+    const queue = this.getWebhookQueue();
+    const events = queue.read(options.consumer, options.limit);
+    if (options.ack && events.length > 0) queue.ack(options.consumer!, events[events.length - 1].id);
+    return events;
+  }
+
+  /**
+   * Replays recorded deliveries (JSONL) against a running receiver.
+   *
+   * @param options.sign - Sign each body again with this store's webhook secret
+   */
+  async replayWebhooks(file: string, options: { url?: string; sign?: boolean } = {}): Promise<ReplayResult[]> {
+    const url = options.url ?? `http://127.0.0.1:${DEFAULT_WEBHOOK_PORT}${DEFAULT_WEBHOOK_PATH}`;
+    const results = await replayDeliveries(url, loadRecordedDeliveries(file), {
+      secret: options.sign ? this.webhookSecret() : undefined,
+    });
+    return results.map(r => (r.error ? { ...r, error: this.redact(r.error) } : r));
+  }
+
+  private webhookSecret(): string {
+    const secret = this.config.judgeme.webhookSecret ?? this.config.judgeme.privateApiToken;
+    if (!secret) {
+      throw new JudgemeAuthError('Webhooks need a signing secret: neither webhookSecret nor the private API token is configured', {
+        suggestion: `Set ${credentialEnvName('webhookSecret', this.hasProfiles() ? this.storeName : undefined)} or webhookSecret in the secrets file.`,
+      });
+    }
+    return secret;
+  }
+
+  private getWebhookQueue(): WebhookEventQueue {
+    if (!this.webhookQueue) {
+      this.webhookQueue = new WebhookEventQueue(this.dataFile('webhook-events.jsonl'), this.dataFile('webhook-cursors.json'));
+    }
+    return this.webhookQueue;
+  }
+
+  // ============================================
+  // CREDENTIALS
+  // ============================================
+
+  /**
+   * Checks each configured token with a harmless read (shop info) and
+   * reports where every credential came from. Never throws for a bad
+   * token; the result says which one failed.
+   *
+   * @bypasses cache
+   */
+  async validateCredentials(): Promise<CredentialCheck> {
+    const { sources, secretsFile } = this.credentials;
+    const check: CredentialCheck = {
+      store: this.storeName,
+      shopDomain: this.config.judgeme.shopDomain,
+      ok: true,
+      tokens: {
+        public: { status: 'missing', source: sources.publicApiToken },
+        private: { status: 'missing', source: sources.privateApiToken },
+      },
+      secretsFile,
+      warnings: [],
+    };
+
+    for (const kind of ['public', 'private'] as const) {
+      const key = kind === 'public' ? 'publicApiToken' : 'privateApiToken';
+      if (!this.config.judgeme[key]) continue;
+      try {
+        await this.request('/shops/info', { usePrivateToken: kind === 'private' });
+        check.tokens[kind].status = 'ok';
+      } catch (error) {
+        if (!(error instanceof JudgemeError)) throw error;
+        check.tokens[kind].status = error instanceof JudgemeAuthError ? 'rejected' : 'error';
+        check.tokens[kind].message = error.message;
+      }
+    }
+
+    if (check.tokens.public.status === 'missing') {
+      check.warnings.push('No public token: public reads will use the private token.');
+    }
+    if (sources.publicApiToken === 'config' || sources.privateApiToken === 'config') {
+      check.warnings.push(
+        'Tokens are stored in plaintext config.json; move them to environment variables or the secrets file.'
+      );
+      const mode = existsSync(this.configPath) ? loosePermissions(this.configPath) : null;
+      if (mode) check.warnings.push(`${this.configPath} has permissions ${mode}; run chmod 600 on it.`);
+    }
+
+    check.ok = check.tokens.private.status === 'ok'
+      && Object.values(check.tokens).every(t => t.status === 'ok' || t.status === 'missing');
+    return check;
+  }
+
+  // ============================================
+  // MULTI-STORE
+  // ============================================
+
+  /** Name of the store profile this client talks to ('default' without profiles). */
+  getStoreName(): string {
+    return this.storeName;
+  }
+
+  /** Configured store profile names, or ['default'] without profiles. */
+  listStores(): string[] {
+    const names = Object.keys(this.rawConfig.judgeme.stores ?? {});
+    return names.length > 0 ? names : [SINGLE_STORE];
+  }
+
+  /** True when the client was created with `--store all`. */
+  isAllStores(): boolean {
+    return this.allStores;
+  }
+
+  /** A client for another configured store, sharing this client's config and cache setting. */
+  forStore(name: string): JudgemeClient {
+    if (name === this.storeName) return this;
+    const client = new JudgemeClient({ config: this.rawConfig, configPath: this.configPath, store: name });
+    if (this.cacheDisabled) client.disableCache();
+    return client;
+  }
+
+  /**
+   * Counts matching reviews in every configured store.
+   *
+   * @param options.source - Count via the API or each store's local mirror (default: api)
+   * `exact` is false if any store's count came from a capped scan.
+   * Product filters are passed to each store as-is, so they only make
+   * sense for IDs that are the same everywhere.
+   */
+  async countReviewsAcrossStores(
+    options: Parameters<JudgemeClient['countReviews']>[0] & { source?: 'api' | 'local' } = {}
+  ): Promise<{ stores: Array<ReviewCountResponse & { store: string }>; total: number; exact: boolean }> {
+    const { source, ...countOptions } = options;
+    const stores: Array<ReviewCountResponse & { store: string }> = [];
+    for (const name of this.listStores()) {
+      const client = this.forStore(name);
+      const result = source === 'local'
+        ? client.getMirror().countReviews(countOptions)
+        : await client.countReviews(countOptions);
+      stores.push({ store: name, ...result });
+    }
+    return {
+      stores,
+      total: stores.reduce((sum, s) => sum + s.count, 0),
+      exact: stores.every(s => s.exact !== false),
+    };
+  }
+
+  /**
+   * Runs the analytics report for every configured store, plus a combined
+   * report over all of their reviews.
+   *
+   * @bypasses cache (pages come from each store's listReviews cache)
+   */
+  async getAnalyticsAcrossStores(
+    options: AnalyticsOptions = {}
+  ): Promise<{ stores: Array<{ store: string; report: AnalyticsReport }>; total: AnalyticsReport }> {
+    const { selection, window } = analyticsWindow(options);
+    const stores: Array<{ store: string; report: AnalyticsReport }> = [];
+    const all: Review[] = [];
+    for (const name of this.listStores()) {
+      const reviews = await this.forStore(name).collectReviews(selection, options.source);
+      stores.push({ store: name, report: computeAnalytics(reviews, window) });
+      all.push(...reviews);
+    }
+    return { stores, total: computeAnalytics(all, window) };
+  }
+
+  private hasProfiles(): boolean {
+    return Object.keys(this.rawConfig.judgeme.stores ?? {}).length > 0;
+  }
+
+  /** Local state file for this store; profiles each get their own directory. */
+  private dataFile(name: string): string {
+    return this.hasProfiles() ? dataPath(join('stores', this.storeName, name)) : dataPath(name);
+  }
+
   // ============================================
   // UTILITY
   // ============================================
@@ -635,15 +2783,37 @@ export class JudgemeClient {
       'get-review',
       'count-reviews',
       'curate-review',
+      'bulk-curate',
       'reply-to-review',
       'private-reply',
+      'list-templates',
+      'pending-actions',
+      'approve',
+      'reject',
+      'approve-all',
+      'audit-log',
       'get-reviewer',
+      'reviewer-profile',
       'shop-info',
       'list-products',
       'lookup-product',
+      'analytics',
+      'analyze-reviews',
+      'topics',
+      'spam-scan',
+      'scan-injection',
+      'alerts-check',
+      'export',
+      'import-reviews',
       'search-reviews',
+      'sync',
+      'mirror-stats',
       'cache-stats',
       'cache-clear',
+      'config-validate',
+      'webhook-serve',
+      'webhook-events',
+      'webhook-replay',
       'list-tools',
     ];
   }
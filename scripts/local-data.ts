@@ -0,0 +1,43 @@
+/**
+ * Local data directory helpers.
+ *
+ * Everything the plugin persists locally (mirror database, journals,
+ * logs, queues) lives in the git-ignored data/ directory next to
+ * config.json. Append-only records use JSON Lines.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// When compiled, __dirname is dist/, so data/ sits beside config.json
+export const DATA_DIR = join(__dirname, '..', 'data');
+
+/**
+ * Resolves a file inside the data directory, creating its directory if
+ * needed. `name` may include subdirectories (e.g. stores/<name>/...).
+ */
+export function dataPath(name: string): string {
+  // JUDGEME_DATA_DIR points tests (or a second checkout) at separate state
+  const path = join(process.env.JUDGEME_DATA_DIR || DATA_DIR, name);
+  mkdirSync(dirname(path), { recursive: true });
+  return path;
+}
+
+/** Appends one record as a JSON line. */
+export function appendJsonl(path: string, record: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, `${JSON.stringify(record)}\n`, 'utf-8');
+}
+
+/** Reads all records from a JSON Lines file. Missing files read as empty. */
+export function readJsonl<T>(path: string): T[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as T);
+}
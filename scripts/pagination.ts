@@ -0,0 +1,60 @@
+/**
+ * Page-number pagination helper for Judge.me list endpoints.
+ *
+ * Judge.me doesn't return a total page count, so the end of a list is
+ * detected by a page shorter than `perPage`. With concurrency > 1 the
+ * next few pages are requested ahead of time; pages are still yielded
+ * in order, and any look-ahead past the end is discarded.
+ */
+
+export interface PaginateOptions {
+  perPage: number;
+  concurrency?: number;  // Pages in flight at once (default: 1)
+  maxPages?: number;     // Hard cap on pages fetched
+  startPage?: number;    // First page number (default: 1)
+}
+
+export interface PageResult<T> {
+  page: number;
+  items: T[];
+  last: boolean;  // True when this page ends the list (not merely the page cap)
+}
+
+/**
+ * Yields pages from `fetchPage` in order until a short page, an empty
+ * page, or `maxPages`. Breaking out of the loop stops further fetches.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  options: PaginateOptions
+): AsyncGenerator<PageResult<T>> {
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const firstPage = options.startPage ?? 1;
+  const lastAllowed = options.maxPages !== undefined ? firstPage + options.maxPages - 1 : Infinity;
+  const inFlight = new Map<number, Promise<T[]>>();
+  let nextToStart = firstPage;
+
+  const fill = () => {
+    while (inFlight.size < concurrency && nextToStart <= lastAllowed) {
+      const pending = fetchPage(nextToStart);
+      // Look-ahead pages may be abandoned; don't surface their failures as unhandled
+      pending.catch(() => undefined);
+      inFlight.set(nextToStart, pending);
+      nextToStart++;
+    }
+  };
+
+  try {
+    for (let page = firstPage; page <= lastAllowed; page++) {
+      fill();
+      const items = await inFlight.get(page)!;
+      inFlight.delete(page);
+
+      const last = items.length < options.perPage;
+      yield { page, items, last };
+      if (last) return;
+    }
+  } finally {
+    inFlight.clear();
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Product ID Index
+ *
+ * Persistent map between Judge.me product IDs, Shopify product IDs,
+ * handles and titles, so translating a Shopify ID doesn't mean paging
+ * through every product. Built once from /products, then merged into
+ * whenever products are fetched again (sync, refresh on a miss).
+ *
+ * Stored as a single JSON file in data/, written via temp file + rename.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import type { Product } from './judgeme-client.js';
+import { editDistance } from './review-search.js';
+
+// Title matches scoring below this are not returned
+const MIN_TITLE_SCORE = 0.5;
+
+export interface ProductIndexEntry {
+  id: number;           // Judge.me product ID
+  externalId: number;   // Shopify product ID
+  handle: string;
+  title: string;
+  reviewsCount?: number;    // As of seenAt; absent in indexes built before it was kept
+  averageRating?: number;
+  seenAt: string;       // Last time this product was returned by the API
+}
+
+export interface ProductIndexState {
+  builtAt: string | null;      // Last full walk of /products (complete, or up to the page cap)
+  capped?: boolean;            // That walk stopped at the page cap, so later products may be missing
+  refreshedAt: string | null;  // Last merge of any kind
+  products: ProductIndexEntry[];
+}
+
+export interface ProductTitleMatch {
+  product: ProductIndexEntry;
+  score: number;  // 0-1, 1 = exact title
+}
+
+export type ProductRef =
+  | { id: number }
+  | { externalId: number }
+  | { handle: string };
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/** Scores a query against a title: exact, substring, then per-word prefix/typo matches. */
+function titleScore(query: string, title: string): number {
+  const q = normalize(query);
+  const t = normalize(title);
+  if (!q || !t) return 0;
+  if (q === t) return 1;
+  if (t.includes(q)) return 0.9;
+
+  const titleWords = t.split(' ');
+  const queryWords = q.split(' ');
+  let total = 0;
+  for (const word of queryWords) {
+    let best = 0;
+    for (const candidate of titleWords) {
+      if (candidate === word) best = 1;
+      else if (candidate.startsWith(word) || word.startsWith(candidate)) best = Math.max(best, 0.8);
+      else if (editDistance(word, candidate, word.length >= 5 ? 2 : 1) <= (word.length >= 5 ? 2 : 1)) {
+        best = Math.max(best, 0.7);
+      }
+    }
+    total += best;
+  }
+  // Slightly below a substring hit so literal matches rank first
+  return (total / queryWords.length) * 0.85;
+}
+
+export class ProductIndex {
+  private state: ProductIndexState | null = null;
+
+  constructor(private path: string) {}
+
+  get builtAt(): string | null {
+    return this.load().builtAt;
+  }
+
+  get refreshedAt(): string | null {
+    return this.load().refreshedAt;
+  }
+
+  get capped(): boolean {
+    return this.load().capped === true;
+  }
+
+  get size(): number {
+    return this.load().products.length;
+  }
+
+  all(): ProductIndexEntry[] {
+    return [...this.load().products];
+  }
+
+  find(ref: ProductRef): ProductIndexEntry | null {
+    const products = this.load().products;
+    if ('id' in ref) return products.find(p => p.id === ref.id) ?? null;
+    if ('externalId' in ref) return products.find(p => p.externalId === ref.externalId) ?? null;
+    const handle = ref.handle.toLowerCase();
+    return products.find(p => p.handle.toLowerCase() === handle) ?? null;
+  }
+
+  /** Best title matches for a fuzzy query, highest score first. */
+  searchTitle(query: string, limit = 5): ProductTitleMatch[] {
+    return this.load().products
+      .map(product => ({ product, score: titleScore(query, product.title) }))
+      .filter(match => match.score >= MIN_TITLE_SCORE)
+      .sort((a, b) => b.score - a.score || a.product.title.localeCompare(b.product.title))
+      .slice(0, limit)
+      .map(match => ({ ...match, score: Math.round(match.score * 100) / 100 }));
+  }
+
+  /**
+   * Adds or updates products. Pass `complete` after walking the whole
+   * product list so entries that no longer exist are dropped, or `capped`
+   * when the walk stopped at the page cap (counts as built, drops nothing).
+   */
+  merge(products: Product[], options: { complete?: boolean; capped?: boolean } = {}): number {
+    const state = this.load();
+    const now = new Date().toISOString();
+    const byId = new Map(state.products.map(p => [p.id, p]));
+    for (const product of products) {
+      byId.set(product.id, {
+        id: product.id,
+        externalId: product.external_id,
+        handle: product.handle ?? '',
+        title: product.title ?? '',
+        reviewsCount: product.reviews_count,
+        averageRating: product.average_rating,
+        seenAt: now,
+      });
+    }
+
+    let entries = [...byId.values()];
+    if (options.complete) {
+      const seen = new Set(products.map(p => p.id));
+      entries = entries.filter(p => seen.has(p.id));
+      state.builtAt = now;
+      state.capped = false;
+    } else if (options.capped) {
+      state.builtAt = now;
+      state.capped = true;
+    }
+    state.products = entries.sort((a, b) => a.id - b.id);
+    state.refreshedAt = now;
+    this.save(state);
+    return products.length;
+  }
+
+  private load(): ProductIndexState {
+    if (!this.state) {
+      this.state = existsSync(this.path)
+        ? JSON.parse(readFileSync(this.path, 'utf-8')) as ProductIndexState
+        : { builtAt: null, refreshedAt: null, products: [] };
+    }
+    return this.state;
+  }
+
+  private save(state: ProductIndexState): void {
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(state, null, 2), 'utf-8');
+    renameSync(tmp, this.path);
+    this.state = state;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Retry and Rate-Limit Helpers
+ *
+ * Backoff calculation, Retry-After / rate-limit header parsing, and a
+ * client-wide throttle that spaces requests out and enforces an
+ * optional per-process request budget.
+ */
+
+import { JudgemeBudgetError } from './errors.js';
+
+export interface RetryConfig {
+  maxRetries: number;    // Extra attempts after the first (0 disables retries)
+  baseDelayMs: number;   // First backoff step
+  maxDelayMs: number;    // Cap for any backoff wait; a longer Retry-After fails the call instead
+}
+
+export interface ThrottleConfig {
+  requestsPerSecond?: number;  // Minimum spacing between requests
+  maxRequests?: number;        // Hard budget for this client instance
+}
+
+export const DEFAULT_RETRY: RetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+// HTTP statuses worth retrying: rate limited or transient server trouble
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/** Exponential backoff with full jitter: random in [0, min(max, base * 2^attempt)]. */
+export function backoffDelay(attempt: number, config: RetryConfig): number {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Reads how long the server asked us to wait, in ms, from Retry-After
+ * (seconds or HTTP date) or X-RateLimit-Reset / RateLimit-Reset
+ * (seconds remaining, or an epoch timestamp). Null when absent.
+ */
+export function serverRequestedDelay(headers: Headers, now: number = Date.now()): number | null {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = headers.get('x-ratelimit-reset') ?? headers.get('ratelimit-reset');
+  if (reset) {
+    const value = Number(reset);
+    if (!Number.isNaN(value)) {
+      // Values this large are epoch seconds rather than a countdown
+      return value > 1_000_000_000 ? Math.max(0, value * 1000 - now) : Math.max(0, value * 1000);
+    }
+  }
+  return null;
+}
+
+/** True when rate-limit headers say the current window is used up. */
+export function rateLimitExhausted(headers: Headers): boolean {
+  const remaining = headers.get('x-ratelimit-remaining') ?? headers.get('ratelimit-remaining');
+  return remaining !== null && Number(remaining) <= 0;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Serialises request start times so they are at least
+ * 1/requestsPerSecond apart, honours server-requested pauses, and
+ * counts requests against the budget.
+ */
+export class Throttle {
+  private nextSlot = 0;
+  private pausedUntil = 0;
+  private used = 0;
+
+  constructor(private config: ThrottleConfig = {}) {}
+
+  get requestsUsed(): number {
+    return this.used;
+  }
+
+  /** Waits for the next free slot. @throws JudgemeBudgetError */
+  async acquire(): Promise<void> {
+    if (this.config.maxRequests !== undefined && this.used >= this.config.maxRequests) {
+      throw new JudgemeBudgetError(this.config.maxRequests);
+    }
+    this.used++;
+
+    const interval = this.config.requestsPerSecond ? 1000 / this.config.requestsPerSecond : 0;
+    const now = Date.now();
+    const start = Math.max(now, this.nextSlot, this.pausedUntil);
+    this.nextSlot = start + interval;
+    if (start > now) {
+      await sleep(start - now);
+    }
+  }
+
+  /** Holds every caller until `delayMs` from now (e.g. rate-limit window reset). */
+  pause(delayMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Reply Templates
+ *
+ * File-based templates for public and private review replies, with
+ * `{{placeholder}}` substitution and rating-band defaults.
+ *
+ * Template file format (templates/<name>.txt):
+ *
+ *   kind: public            # public | private
+ *   ratings: 4-5            # rating band used for automatic selection
+ *   subject: ...            # private replies only; placeholders allowed
+ *   ---
+ *   Hi {{reviewer.first_name|there}}, thanks for reviewing {{product_title}}!
+ *
+ * `{{name|fallback}}` uses the fallback when the value is empty. Values
+ * taken from review fields are untrusted: they are flattened to one
+ * line, stripped of markup, URLs and template braces, and length-capped
+ * before substitution.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { basename, dirname, join } from 'path';
+import type { Review } from './judgeme-client.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// templates/ ships beside the sources; when compiled, __dirname is dist/
+const TEMPLATE_DIR_CANDIDATES = [join(__dirname, 'templates'), join(__dirname, '..', 'templates')];
+
+const PLACEHOLDER = /\{\{\s*([a-z_.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export type ReplyKind = 'public' | 'private';
+
+export interface ReplyTemplate {
+  name: string;
+  kind: ReplyKind;
+  minRating: number;
+  maxRating: number;
+  subject?: string;
+  body: string;
+}
+
+export interface RenderedReply {
+  template: string;
+  kind: ReplyKind;
+  subject?: string;
+  body: string;
+  warnings: string[];
+}
+
+/** Per-variable caps; untrusted values are truncated to these lengths. */
+const VARIABLES: Record<string, { maxChars: number; resolve: (review: Review) => unknown }> = {
+  'reviewer.name': { maxChars: 60, resolve: r => r.reviewer?.name },
+  'reviewer.first_name': { maxChars: 30, resolve: r => r.reviewer?.name?.trim().split(/\s+/)[0] },
+  'product_title': { maxChars: 120, resolve: r => r.product_title },
+  'review.title': { maxChars: 80, resolve: r => r.title },
+  'rating': { maxChars: 1, resolve: r => r.rating },
+};
+
+/**
+ * Makes an untrusted value safe to splice into a reply: one line, no
+ * markup, links or template syntax, capped at a word boundary.
+ */
+export function sanitizeTemplateValue(value: unknown, maxChars: number): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value)
+    .replace(/[\u0000-\u001f\u007f]+/g, ' ')
+    .replace(/https?:\/\/\S+|www\.\S+/gi, '')
+    .replace(/\{\{|\}\}|[<>{}[\]`*_#|\\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (text.length > maxChars) {
+    const cut = text.slice(0, maxChars);
+    const lastSpace = cut.lastIndexOf(' ');
+    text = (lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut).trim();
+  }
+  return text;
+}
+
+function parseTemplate(name: string, source: string): ReplyTemplate {
+  const divider = source.search(/^---\s*$/m);
+  if (divider === -1) {
+    throw new Error(`Template "${name}" is missing the "---" line between header and body`);
+  }
+
+  const header: Record<string, string> = {};
+  for (const line of source.slice(0, divider).split('\n')) {
+    const match = /^\s*([a-z]+)\s*:\s*(.*?)\s*$/i.exec(line);
+    if (match) header[match[1].toLowerCase()] = match[2];
+  }
+
+  const kind = (header.kind || 'public') as ReplyKind;
+  if (kind !== 'public' && kind !== 'private') {
+    throw new Error(`Template "${name}" has invalid kind "${header.kind}" (use public or private)`);
+  }
+
+  const band = /^(\d)(?:\s*-\s*(\d))?$/.exec(header.ratings || '1-5');
+  if (!band) {
+    throw new Error(`Template "${name}" has invalid ratings "${header.ratings}" (use e.g. 5 or 1-3)`);
+  }
+
+  return {
+    name,
+    kind,
+    minRating: Number(band[1]),
+    maxRating: Number(band[2] ?? band[1]),
+    subject: header.subject,
+    body: source.slice(divider).replace(/^---\s*\n/, '').trim(),
+  };
+}
+
+export class TemplateStore {
+  private dir: string | null;
+
+  constructor(dir?: string) {
+    this.dir = dir ?? TEMPLATE_DIR_CANDIDATES.find(candidate => existsSync(candidate)) ?? null;
+  }
+
+  /** Loads every template, sorted by name. */
+  list(): ReplyTemplate[] {
+    if (!this.dir || !existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter(file => file.endsWith('.txt'))
+      .sort()
+      .map(file => parseTemplate(basename(file, '.txt'), readFileSync(join(this.dir!, file), 'utf-8')));
+  }
+
+  /** @throws Error listing available templates when `name` doesn't exist */
+  get(name: string): ReplyTemplate {
+    const templates = this.list();
+    const template = templates.find(t => t.name === name);
+    if (!template) {
+      const available = templates.map(t => t.name).join(', ') || 'none';
+      throw new Error(`Unknown reply template "${name}". Available: ${available}`);
+    }
+    return template;
+  }
+
+  /**
+   * Picks the template of the given kind whose rating band contains the
+   * rating. The narrowest band wins; ties go to the first by name.
+   */
+  pickForRating(rating: number, kind: ReplyKind): ReplyTemplate {
+    const matches = this.list()
+      .filter(t => t.kind === kind && rating >= t.minRating && rating <= t.maxRating)
+      .sort((a, b) => (a.maxRating - a.minRating) - (b.maxRating - b.minRating));
+    if (matches.length === 0) {
+      throw new Error(`No ${kind} reply template covers a ${rating}-star rating`);
+    }
+    return matches[0];
+  }
+
+  /** Substitutes placeholders for a review. Unknown placeholders are an error. */
+  render(template: ReplyTemplate, review: Review): RenderedReply {
+    const warnings: string[] = [];
+
+    const fill = (text: string) => text.replace(PLACEHOLDER, (_match, key: string, fallback?: string) => {
+      // Own keys only: {{constructor}} must not reach Object.prototype
+      const variable = Object.hasOwn(VARIABLES, key) ? VARIABLES[key] : undefined;
+      if (!variable) {
+        throw new Error(
+          `Template "${template.name}" uses unknown placeholder {{${key}}}. ` +
+          `Available: ${Object.keys(VARIABLES).join(', ')}`
+        );
+      }
+      const value = sanitizeTemplateValue(variable.resolve(review), variable.maxChars);
+      if (value) return value;
+      if (fallback !== undefined) return fallback.trim();
+      warnings.push(`{{${key}}} is empty for review ${review.id}`);
+      return '';
+    });
+
+    return {
+      template: template.name,
+      kind: template.kind,
+      subject: template.subject !== undefined ? fill(template.subject) : undefined,
+      body: fill(template.body),
+      warnings,
+    };
+  }
+}
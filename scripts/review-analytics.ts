@@ -0,0 +1,188 @@
+/**
+ * Review Analytics
+ *
+ * Aggregates a set of reviews into the numbers the team keeps asking
+ * for: rating distribution, average-rating trend per week or month,
+ * review velocity, verified share, reply rate and time-to-reply.
+ * Totals are computed for the whole range and per product.
+ *
+ * Pure functions over Review[]; the client decides where the reviews
+ * come from (API or local mirror).
+ */
+
+import type { Review } from './judgeme-client.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrendBucket = 'week' | 'month';
+
+export interface TrendPoint {
+  period: string;               // Week start (YYYY-MM-DD, Monday) or month (YYYY-MM)
+  count: number;
+  averageRating: number | null;
+}
+
+export interface ReviewStats {
+  count: number;
+  averageRating: number | null;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  verifiedShare: number | null;        // 0-1, verified buyers / all
+  replyRate: number | null;            // 0-1, reviews with a public reply / all
+  medianHoursToReply: number | null;
+  reviewsPerWeek: number;
+  trend: TrendPoint[];
+}
+
+export interface ProductStats extends ReviewStats {
+  productExternalId: number;
+  productTitle: string;
+}
+
+export interface AnalyticsReport {
+  range: { from: string; to: string; days: number };
+  bucket: TrendBucket;
+  overall: ReviewStats;
+  products: ProductStats[];   // Most reviewed first
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** UTC period label: Monday of the ISO week, or YYYY-MM. */
+export function periodOf(timestamp: number, bucket: TrendBucket): string {
+  const date = new Date(timestamp);
+  if (bucket === 'month') return date.toISOString().slice(0, 7);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(timestamp - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+function computeStats(reviews: Review[], bucket: TrendBucket, days: number): ReviewStats {
+  const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const trend = new Map<string, { count: number; ratingSum: number }>();
+  const replyHours: number[] = [];
+  let ratingSum = 0;
+  let verified = 0;
+  let replied = 0;
+
+  for (const review of reviews) {
+    const rating = Math.round(review.rating) as 1 | 2 | 3 | 4 | 5;
+    if (rating >= 1 && rating <= 5) distribution[rating]++;
+    ratingSum += review.rating;
+    if (review.verified === 'buyer') verified++;
+
+    if (review.reply?.body) {
+      replied++;
+      const delay = Date.parse(review.reply.created_at) - Date.parse(review.created_at);
+      if (!Number.isNaN(delay) && delay >= 0) replyHours.push(delay / (60 * 60 * 1000));
+    }
+
+    const period = periodOf(Date.parse(review.created_at), bucket);
+    const point = trend.get(period) ?? { count: 0, ratingSum: 0 };
+    point.count++;
+    point.ratingSum += review.rating;
+    trend.set(period, point);
+  }
+
+  const count = reviews.length;
+  const medianReply = median(replyHours);
+  return {
+    count,
+    averageRating: count ? round(ratingSum / count) : null,
+    distribution,
+    verifiedShare: count ? round(verified / count, 3) : null,
+    replyRate: count ? round(replied / count, 3) : null,
+    medianHoursToReply: medianReply === null ? null : round(medianReply, 1),
+    reviewsPerWeek: round(count / Math.max(days / 7, 1 / 7)),
+    trend: [...trend.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, p]) => ({ period, count: p.count, averageRating: round(p.ratingSum / p.count) })),
+  };
+}
+
+/**
+ * Builds the analytics report for reviews created in [from, to].
+ * Reviews outside the range are ignored.
+ */
+export function computeAnalytics(
+  reviews: Review[],
+  options: { from: number; to: number; bucket?: TrendBucket }
+): AnalyticsReport {
+  const bucket = options.bucket ?? 'week';
+  const days = Math.max((options.to - options.from) / DAY_MS, 0);
+  const inRange = reviews.filter(review => {
+    const created = Date.parse(review.created_at);
+    return created >= options.from && created <= options.to;
+  });
+
+  const byProduct = new Map<number, Review[]>();
+  for (const review of inRange) {
+    const group = byProduct.get(review.product_external_id) ?? [];
+    group.push(review);
+    byProduct.set(review.product_external_id, group);
+  }
+
+  const products = [...byProduct.entries()]
+    .map(([productExternalId, group]) => ({
+      productExternalId,
+      productTitle: group[0].product_title ?? '',
+      ...computeStats(group, bucket, days),
+    }))
+    .sort((a, b) => b.count - a.count || a.productExternalId - b.productExternalId);
+
+  return {
+    range: {
+      from: new Date(options.from).toISOString(),
+      to: new Date(options.to).toISOString(),
+      days: round(days, 1),
+    },
+    bucket,
+    overall: computeStats(inRange, bucket, days),
+    products,
+  };
+}
+
+function percent(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Renders a compact fixed-width table: one row for the whole range,
+ * then one per product. Rows are labelled by Shopify product ID: titles
+ * are untrusted shop content and only appear wrapped in the JSON output.
+ */
+export function formatAnalyticsTable(report: AnalyticsReport, maxProducts = 20): string {
+  const header = ['Product ID', 'Reviews', 'Avg', '5/4/3/2/1', 'Verified', 'Replied', 'Med reply', '/week'];
+  const row = (label: string, stats: ReviewStats): string[] => [
+    label,
+    String(stats.count),
+    stats.averageRating === null ? '-' : stats.averageRating.toFixed(2),
+    [5, 4, 3, 2, 1].map(r => stats.distribution[r as 1 | 2 | 3 | 4 | 5]).join('/'),
+    percent(stats.verifiedShare),
+    percent(stats.replyRate),
+    stats.medianHoursToReply === null ? '-' : `${stats.medianHoursToReply}h`,
+    String(stats.reviewsPerWeek),
+  ];
+  const rows = [
+    header,
+    row('ALL PRODUCTS', report.overall),
+    ...report.products.slice(0, maxProducts).map(p => row(String(p.productExternalId), p)),
+  ];
+  const widths = header.map((_, i) => Math.max(...rows.map(r => r[i].length)));
+  const lines = rows.map(r =>
+    r.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ')
+  );
+  lines.splice(1, 0, widths.map(w => '-'.repeat(w)).join('  '));
+
+  const hidden = report.products.length - maxProducts;
+  if (hidden > 0) lines.push(`… ${hidden} more products in the JSON output`);
+  return `${report.range.from.slice(0, 10)} to ${report.range.to.slice(0, 10)}\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,210 @@
+/**
+ * Review Export
+ *
+ * Streams reviews to a file as CSV, JSON Lines, or a Google Merchant
+ * Center Product Reviews feed (XML, schema 2.3). Reviews are written as
+ * they arrive, so exports of any size run in constant memory.
+ *
+ * Reviewer emails are left out unless explicitly requested (never in
+ * the Google feed). CSV cells that a spreadsheet would treat as a
+ * formula are prefixed with a quote, since review text is untrusted.
+ */
+
+import { createWriteStream, renameSync, unlinkSync } from 'fs';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { JudgemeLocalIoError } from './errors.js';
+import type { Review } from './judgeme-client.js';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'google-xml';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeEmails?: boolean;
+  shopDomain: string;
+  /** Product handle for feed URLs; called once per distinct product. */
+  resolveHandle?: (productExternalId: number) => Promise<string | null>;
+}
+
+export interface ExportResult {
+  path: string;
+  format: ExportFormat;
+  written: number;
+  skipped: number;   // Google feed only: hidden or unpublished reviews
+}
+
+const CSV_COLUMNS = [
+  'id', 'created_at', 'updated_at', 'rating', 'title', 'body', 'reviewer_id', 'reviewer_name',
+  'reviewer_email', 'verified', 'curated', 'published', 'hidden', 'product_external_id',
+  'product_title', 'reply_body', 'reply_created_at', 'picture_urls',
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Neutralise spreadsheet formulas in untrusted text
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvHeader(includeEmails: boolean): string {
+  return `${CSV_COLUMNS.filter(c => includeEmails || c !== 'reviewer_email').join(',')}\r\n`;
+}
+
+function csvRow(review: Review, includeEmails: boolean): string {
+  const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+    id: review.id,
+    created_at: review.created_at,
+    updated_at: review.updated_at,
+    rating: review.rating,
+    title: review.title,
+    body: review.body,
+    reviewer_id: review.reviewer?.id,
+    reviewer_name: review.reviewer?.name,
+    reviewer_email: review.reviewer?.email,
+    verified: review.verified,
+    curated: review.curated,
+    published: review.published,
+    hidden: review.hidden,
+    product_external_id: review.product_external_id,
+    product_title: review.product_title,
+    reply_body: review.reply?.body,
+    reply_created_at: review.reply?.created_at,
+    picture_urls: review.pictures?.map(p => p.urls.original).join(' '),
+  };
+  return `${CSV_COLUMNS
+    .filter(c => includeEmails || c !== 'reviewer_email')
+    .map(c => csvCell(values[c]))
+    .join(',')}\r\n`;
+}
+
+function jsonlLine(review: Review, includeEmails: boolean): string {
+  if (includeEmails || !review.reviewer) return `${JSON.stringify(review)}\n`;
+  const { email: _email, ...reviewer } = review.reviewer;
+  return `${JSON.stringify({ ...review, reviewer })}\n`;
+}
+
+function xmlEscape(text: string | number | null | undefined): string {
+  return String(text ?? '')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function googleFeedHeader(publisher: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns:vc="http://www.w3.org/2007/XMLSchema-versioning"',
+    '      xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '      xsi:noNamespaceSchemaLocation="http://www.google.com/shopping/reviews/schema/product/2.3/product_reviews.xsd">',
+    '  <version>2.3</version>',
+    `  <publisher><name>${xmlEscape(publisher)}</name></publisher>`,
+    '  <reviews>',
+    '',
+  ].join('\n');
+}
+
+const GOOGLE_FEED_FOOTER = '  </reviews>\n</feed>\n';
+
+function googleReview(review: Review, productUrl: string): string {
+  const name = review.reviewer?.name?.trim();
+  const reviewer = name
+    ? `<reviewer><name>${xmlEscape(name)}</name></reviewer>`
+    : '<reviewer><name is_anonymous="true">Anonymous</name></reviewer>';
+  return [
+    '    <review>',
+    `      <review_id>${xmlEscape(review.id)}</review_id>`,
+    `      ${reviewer}`,
+    `      <review_timestamp>${xmlEscape(new Date(review.created_at).toISOString())}</review_timestamp>`,
+    review.title ? `      <title>${xmlEscape(review.title)}</title>` : null,
+    `      <content>${xmlEscape(review.body || review.title || '')}</content>`,
+    `      <review_url type="group">${xmlEscape(productUrl)}</review_url>`,
+    `      <ratings><overall min="1" max="5">${xmlEscape(review.rating)}</overall></ratings>`,
+    '      <products>',
+    '        <product>',
+    // No product_ids: the feed only takes GTINs, MPNs, SKUs and brands, and a
+    // Shopify product ID is none of those. The product URL identifies it
+    `          <product_name>${xmlEscape(review.product_title)}</product_name>`,
+    `          <product_url>${xmlEscape(productUrl)}</product_url>`,
+    '        </product>',
+    '      </products>',
+    `      <is_spam>${review.curated === 'spam'}</is_spam>`,
+    '    </review>',
+    '',
+  ].filter(line => line !== null).join('\n');
+}
+
+/**
+ * Writes reviews to `path` in the chosen format. Output goes to a temp
+ * file first and is renamed into place once complete, so a failed
+ * export never leaves a truncated file behind. The file is opened before
+ * any review is fetched, so an unwritable path fails with a
+ * JudgemeLocalIoError straight away.
+ */
+export async function writeExport(
+  reviews: AsyncIterable<Review> | Iterable<Review>,
+  path: string,
+  options: ExportOptions
+): Promise<ExportResult> {
+  const includeEmails = options.includeEmails ?? false;
+  const tmp = `${path}.tmp`;
+  const out = createWriteStream(tmp, { encoding: 'utf-8' });
+  // Kept rather than thrown: an unhandled stream 'error' would crash the process
+  let streamError: Error | undefined;
+  out.on('error', error => { streamError = error; });
+  const handles = new Map<number, string | null>();
+  let written = 0;
+  let skipped = 0;
+
+  const write = async (chunk: string) => {
+    if (streamError) throw streamError;
+    if (!out.write(chunk)) await once(out, 'drain');
+  };
+
+  try {
+    await once(out, 'open');
+    if (options.format === 'csv') await write(csvHeader(includeEmails));
+    if (options.format === 'google-xml') await write(googleFeedHeader(options.shopDomain));
+
+    for await (const review of reviews) {
+      if (options.format === 'csv') {
+        await write(csvRow(review, includeEmails));
+      } else if (options.format === 'jsonl') {
+        await write(jsonlLine(review, includeEmails));
+      } else {
+        // The feed is for reviews shoppers can see
+        if (review.hidden || review.published === false) {
+          skipped++;
+          continue;
+        }
+        if (!handles.has(review.product_external_id)) {
+          handles.set(review.product_external_id, await options.resolveHandle?.(review.product_external_id) ?? null);
+        }
+        const handle = handles.get(review.product_external_id);
+        const productUrl = handle
+          ? `https://${options.shopDomain}/products/${encodeURIComponent(handle)}`
+          : `https://${options.shopDomain}/`;
+        await write(googleReview(review, productUrl));
+      }
+      written++;
+    }
+
+    if (options.format === 'google-xml') await write(GOOGLE_FEED_FOOTER);
+    out.end();
+    await finished(out);
+    renameSync(tmp, path);
+  } catch (error) {
+    out.destroy();
+    try { unlinkSync(tmp); } catch { /* already gone */ }
+    if (streamError && error === streamError) {
+      throw new JudgemeLocalIoError(`Cannot write export to ${path}: ${streamError.message}`);
+    }
+    throw error;
+  }
+
+  return { path, format: options.format, written, skipped };
+}
@@ -0,0 +1,195 @@
+/**
+ * Review Filters
+ *
+ * Shared filter definitions for list, count and search. The Judge.me
+ * API only filters by product and exact rating, so everything else is
+ * applied client-side (or in SQL when reading from the local mirror).
+ * Callers get a report of where each filter was applied.
+ */
+
+import type { Review } from './judgeme-client.js';
+
+export interface ReviewFilters {
+  rating?: number;
+  minRating?: number;
+  maxRating?: number;
+  createdAfter?: string;   // ISO date or relative duration like "7d"
+  createdBefore?: string;  // ISO date or relative duration like "24h"
+  curated?: 'ok' | 'spam' | 'pending';
+  verifiedBuyer?: boolean;
+  hasPictures?: boolean;
+  hasReply?: boolean;
+  hidden?: boolean;
+  published?: boolean;
+}
+
+/** Where each active filter was applied. */
+export interface FilterReport {
+  api: string[];
+  client: string[];
+  local: string[];
+}
+
+const FILTER_KEYS: Array<keyof ReviewFilters> = [
+  'rating', 'minRating', 'maxRating', 'createdAfter', 'createdBefore', 'curated',
+  'verifiedBuyer', 'hasPictures', 'hasReply', 'hidden', 'published',
+];
+
+// Judge.me's `verified` value for reviews tied to an order
+const VERIFIED_BUYER = 'buyer';
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Resolves a date filter to epoch ms. Accepts ISO dates/timestamps or a
+ * relative duration before now ("36h", "7d", "2w").
+ *
+ * @throws Error if the value is neither
+ */
+export function resolveDateFilter(value: string, now: number = Date.now()): number {
+  const relative = /^(\d+)([hdw])$/.exec(value.trim());
+  if (relative) {
+    return now - Number(relative[1]) * DURATION_UNITS_MS[relative[2]];
+  }
+  const ts = Date.parse(value);
+  if (Number.isNaN(ts)) {
+    throw new Error(`Invalid date filter "${value}": use an ISO date or a duration like 7d, 24h, 2w`);
+  }
+  return ts;
+}
+
+/** Returns the names of filters that are set. */
+export function activeFilters(filters: ReviewFilters): Array<keyof ReviewFilters> {
+  return FILTER_KEYS.filter(key => filters[key] !== undefined);
+}
+
+/**
+ * Splits filters into the part Judge.me can apply (exact rating) and the
+ * part that must be applied to fetched reviews.
+ */
+export function splitFilters(filters: ReviewFilters): {
+  api: { rating?: number };
+  client: ReviewFilters;
+  report: FilterReport;
+} {
+  const client: ReviewFilters = {};
+  const report: FilterReport = { api: [], client: [], local: [] };
+  let rating = filters.rating;
+
+  // A single-value rating range can still go to the API
+  if (rating === undefined && filters.minRating !== undefined && filters.minRating === filters.maxRating) {
+    rating = filters.minRating;
+    report.api.push('minRating', 'maxRating');
+  } else {
+    if (filters.rating !== undefined) report.api.push('rating');
+    for (const key of ['minRating', 'maxRating'] as const) {
+      if (filters[key] !== undefined) {
+        client[key] = filters[key];
+        report.client.push(key);
+      }
+    }
+  }
+
+  for (const key of activeFilters(filters)) {
+    if (key === 'rating' || key === 'minRating' || key === 'maxRating') continue;
+    (client as Record<string, unknown>)[key] = filters[key];
+    report.client.push(key);
+  }
+
+  return { api: { rating }, client, report };
+}
+
+/** Tests a review against client-side filters. */
+export function matchesFilters(review: Review, filters: ReviewFilters, now: number = Date.now()): boolean {
+  if (filters.rating !== undefined && review.rating !== filters.rating) return false;
+  if (filters.minRating !== undefined && review.rating < filters.minRating) return false;
+  if (filters.maxRating !== undefined && review.rating > filters.maxRating) return false;
+
+  if (filters.createdAfter !== undefined || filters.createdBefore !== undefined) {
+    const created = Date.parse(review.created_at);
+    if (Number.isNaN(created)) return false;
+    if (filters.createdAfter !== undefined && created < resolveDateFilter(filters.createdAfter, now)) return false;
+    if (filters.createdBefore !== undefined && created > resolveDateFilter(filters.createdBefore, now)) return false;
+  }
+
+  if (filters.curated !== undefined) {
+    const state = review.curated ?? 'pending';
+    if (state !== filters.curated) return false;
+  }
+  if (filters.verifiedBuyer !== undefined && (review.verified === VERIFIED_BUYER) !== filters.verifiedBuyer) {
+    return false;
+  }
+  if (filters.hasPictures !== undefined && ((review.pictures?.length ?? 0) > 0) !== filters.hasPictures) {
+    return false;
+  }
+  if (filters.hasReply !== undefined && Boolean(review.reply?.body) !== filters.hasReply) return false;
+  if (filters.hidden !== undefined && Boolean(review.hidden) !== filters.hidden) return false;
+  if (filters.published !== undefined && Boolean(review.published) !== filters.published) return false;
+
+  return true;
+}
+
+/**
+ * Builds a SQL WHERE fragment for the mirror's reviews table.
+ * Every filter is applied locally.
+ */
+export function filtersToSql(filters: ReviewFilters, now: number = Date.now()): {
+  clauses: string[];
+  params: Array<string | number>;
+} {
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (filters.rating !== undefined) {
+    clauses.push('rating = ?');
+    params.push(filters.rating);
+  }
+  if (filters.minRating !== undefined) {
+    clauses.push('rating >= ?');
+    params.push(filters.minRating);
+  }
+  if (filters.maxRating !== undefined) {
+    clauses.push('rating <= ?');
+    params.push(filters.maxRating);
+  }
+  if (filters.createdAfter !== undefined) {
+    clauses.push('created_ts >= ?');
+    params.push(resolveDateFilter(filters.createdAfter, now));
+  }
+  if (filters.createdBefore !== undefined) {
+    clauses.push('created_ts <= ?');
+    params.push(resolveDateFilter(filters.createdBefore, now));
+  }
+  if (filters.curated !== undefined) {
+    if (filters.curated === 'pending') {
+      clauses.push('curated IS NULL');
+    } else {
+      clauses.push('curated = ?');
+      params.push(filters.curated);
+    }
+  }
+  if (filters.verifiedBuyer !== undefined) {
+    clauses.push(filters.verifiedBuyer ? 'verified = ?' : '(verified IS NULL OR verified != ?)');
+    params.push(VERIFIED_BUYER);
+  }
+  if (filters.hasPictures !== undefined) {
+    clauses.push(`COALESCE(json_array_length(data, '$.pictures'), 0) ${filters.hasPictures ? '>' : '='} 0`);
+  }
+  if (filters.hasReply !== undefined) {
+    clauses.push(`COALESCE(json_extract(data, '$.reply.body'), '') ${filters.hasReply ? '!=' : '='} ''`);
+  }
+  if (filters.hidden !== undefined) {
+    clauses.push('hidden = ?');
+    params.push(filters.hidden ? 1 : 0);
+  }
+  if (filters.published !== undefined) {
+    clauses.push('published = ?');
+    params.push(filters.published ? 1 : 0);
+  }
+
+  return { clauses, params };
+}
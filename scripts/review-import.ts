@@ -0,0 +1,282 @@
+/**
+ * Review Import
+ *
+ * Reads review CSVs exported from other platforms (Yotpo, Stamped,
+ * Okendo) or a plain CSV, maps columns onto Judge.me's review-creation
+ * payload and validates each row. The client does the product lookups
+ * and the actual POSTs; this module only parses, maps and checks.
+ *
+ * Files are parsed as a stream, so large imports don't need to fit in
+ * memory. Progress records let an interrupted import resume at the row
+ * after the last one handled.
+ */
+
+import { createReadStream, existsSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { resolve } from 'path';
+
+export type ImportPlatform = 'csv' | 'yotpo' | 'stamped' | 'okendo';
+
+/** Judge.me review fields an import column can feed. */
+export type ImportField =
+  | 'productId' | 'rating' | 'title' | 'body' | 'name' | 'email' | 'createdAt' | 'pictureUrls';
+
+export type ColumnMap = Record<ImportField, string[]>;
+
+// Header names per platform, matched case-insensitively; the first one present wins
+export const PLATFORM_COLUMNS: Record<ImportPlatform, ColumnMap> = {
+  csv: {
+    productId: ['product_id', 'shopify_product_id', 'product_external_id'],
+    rating: ['rating'],
+    title: ['title'],
+    body: ['body', 'content'],
+    name: ['reviewer_name', 'name'],
+    email: ['reviewer_email', 'email'],
+    createdAt: ['created_at', 'date'],
+    pictureUrls: ['picture_urls'],
+  },
+  yotpo: {
+    productId: ['product_id'],
+    rating: ['review_score'],
+    title: ['review_title'],
+    body: ['review_content'],
+    name: ['display_name'],
+    email: ['email'],
+    createdAt: ['date'],
+    pictureUrls: ['published_image_url'],
+  },
+  stamped: {
+    productId: ['productid', 'product_id'],
+    rating: ['rating'],
+    title: ['title'],
+    body: ['body'],
+    name: ['author'],
+    email: ['email'],
+    createdAt: ['created_at', 'datecreated'],
+    pictureUrls: ['photos', 'image_urls'],
+  },
+  okendo: {
+    productId: ['productid', 'product_id'],
+    rating: ['rating'],
+    title: ['title'],
+    body: ['body'],
+    name: ['reviewername', 'reviewer_name'],
+    email: ['revieweremail', 'reviewer_email'],
+    createdAt: ['datecreated', 'date_created'],
+    pictureUrls: ['media', 'image_urls'],
+  },
+};
+
+/** Payload for POST /reviews. */
+export interface ReviewCreatePayload {
+  platform: 'shopify';
+  id: number;             // Shopify product ID
+  rating: number;
+  title?: string;
+  body: string;
+  name: string;
+  email: string;
+  created_at?: string;
+  picture_urls?: string[];
+}
+
+export interface ImportRowError {
+  row: number;            // 1-based data row (header excluded)
+  errors: string[];
+  record: Record<string, string>;
+}
+
+export interface ImportProgress {
+  file: string;
+  fingerprint: string;
+  lastRow: number;        // Highest data row already handled (imported or errored)
+  imported: number;
+  staged?: number;        // Rows queued for approval in staged mode
+  failed: number;
+  updatedAt: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Parses CSV (RFC 4180: quoted fields, doubled quotes, newlines inside
+ * quotes) from a file stream, yielding one array of cells per record.
+ */
+export async function* parseCsv(path: string): AsyncGenerator<string[]> {
+  let cell = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let pendingQuote = false;   // Saw a quote inside quotes; next char decides
+  let first = true;
+
+  for await (const chunk of createReadStream(path, { encoding: 'utf-8' })) {
+    let text = chunk as string;
+    if (first) {
+      text = text.replace(/^\uFEFF/, '');
+      first = false;
+    }
+    for (const char of text) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          cell += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (char === '"') pendingQuote = true;
+        else cell += char;
+        continue;
+      }
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(cell);
+        cell = '';
+      } else if (char === '\n') {
+        record.push(cell.replace(/\r$/, ''));
+        if (record.length > 1 || record[0] !== '') yield record;
+        record = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell.replace(/\r$/, ''));
+    yield record;
+  }
+}
+
+/**
+ * Resolves which header column feeds each field. `overrides` maps a
+ * field to an exact header name and wins over the platform defaults.
+ */
+export function resolveColumns(
+  header: string[],
+  platform: ImportPlatform,
+  overrides: Partial<Record<ImportField, string>> = {}
+): Partial<Record<ImportField, number>> {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const columns: Partial<Record<ImportField, number>> = {};
+  for (const field of Object.keys(PLATFORM_COLUMNS[platform]) as ImportField[]) {
+    const candidates = overrides[field] ? [overrides[field]!] : PLATFORM_COLUMNS[platform][field];
+    for (const name of candidates) {
+      const index = normalized.indexOf(name.trim().toLowerCase());
+      if (index !== -1) {
+        columns[field] = index;
+        break;
+      }
+    }
+    if (overrides[field] && columns[field] === undefined) {
+      throw new Error(`Mapped column "${overrides[field]}" for ${field} is not in the CSV header`);
+    }
+  }
+  for (const required of ['productId', 'rating', 'body', 'email'] as ImportField[]) {
+    if (columns[required] === undefined) {
+      throw new Error(
+        `No column for ${required} in the CSV header (${platform} expects one of: ` +
+        `${PLATFORM_COLUMNS[platform][required].join(', ')}). Use --map ${required}=<column>.`
+      );
+    }
+  }
+  return columns;
+}
+
+/** Parses `field=column,field=column` into column overrides. */
+export function parseColumnOverrides(spec: string | undefined): Partial<Record<ImportField, string>> {
+  const overrides: Partial<Record<ImportField, string>> = {};
+  if (!spec) return overrides;
+  const fields = Object.keys(PLATFORM_COLUMNS.csv);
+  for (const pair of spec.split(',')) {
+    const [field, column] = pair.split('=').map(s => s.trim());
+    if (!fields.includes(field) || !column) {
+      throw new Error(`Invalid --map entry "${pair}": use field=column with field one of ${fields.join(', ')}`);
+    }
+    overrides[field as ImportField] = column;
+  }
+  return overrides;
+}
+
+/**
+ * Maps a CSV record onto a review payload, returning every validation
+ * problem found (product existence is checked by the caller).
+ */
+export function mapRow(
+  cells: string[],
+  columns: Partial<Record<ImportField, number>>
+): { payload: ReviewCreatePayload | null; errors: string[] } {
+  const get = (field: ImportField) =>
+    columns[field] !== undefined ? (cells[columns[field]!] ?? '').trim() : '';
+  const errors: string[] = [];
+
+  const productId = Number(get('productId'));
+  if (!get('productId') || !Number.isInteger(productId) || productId <= 0) {
+    errors.push(`product ID "${get('productId')}" is not a numeric Shopify product ID`);
+  }
+  const rating = Number(get('rating'));
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.push(`rating "${get('rating')}" must be a whole number from 1 to 5`);
+  }
+  const email = get('email');
+  if (!EMAIL_PATTERN.test(email)) errors.push(`email "${email}" is not a valid address`);
+  const body = get('body');
+  if (!body) errors.push('body is empty');
+
+  let createdAt: string | undefined;
+  if (get('createdAt')) {
+    const ts = Date.parse(get('createdAt'));
+    if (Number.isNaN(ts)) errors.push(`date "${get('createdAt')}" is not a valid date`);
+    else createdAt = new Date(ts).toISOString();
+  }
+
+  const pictureUrls = get('pictureUrls').split(/[\s,;|]+/).filter(url => /^https?:\/\//.test(url));
+
+  if (errors.length > 0) return { payload: null, errors };
+  return {
+    payload: {
+      platform: 'shopify',
+      id: productId,
+      rating,
+      ...(get('title') ? { title: get('title') } : {}),
+      body,
+      name: get('name') || 'Anonymous',
+      email,
+      ...(createdAt ? { created_at: createdAt } : {}),
+      ...(pictureUrls.length > 0 ? { picture_urls: pictureUrls } : {}),
+    },
+    errors,
+  };
+}
+
+/** Identifies an input file by path, size and modification time. */
+export function fileFingerprint(path: string): string {
+  const stat = statSync(path);
+  return createHash('sha256')
+    .update(`${resolve(path)}:${stat.size}:${stat.mtimeMs}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export class ImportProgressStore {
+  constructor(private path: string) {}
+
+  load(fingerprint: string): ImportProgress | null {
+    if (!existsSync(this.path)) return null;
+    const progress = JSON.parse(readFileSync(this.path, 'utf-8')) as ImportProgress;
+    // A changed file means old row numbers no longer line up
+    return progress.fingerprint === fingerprint ? progress : null;
+  }
+
+  save(progress: ImportProgress): void {
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(progress, null, 2), 'utf-8');
+    renameSync(tmp, this.path);
+  }
+
+  clear(): void {
+    if (existsSync(this.path)) unlinkSync(this.path);
+  }
+}
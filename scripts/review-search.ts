@@ -0,0 +1,380 @@
+/**
+ * Review Full-Text Search
+ *
+ * Query parsing, matching and relevance ranking for review text.
+ * Used by both the API-backed and mirror-backed search paths.
+ *
+ * Query syntax:
+ * - Terms are ANDed by default: `battery charger`
+ * - Boolean operators and grouping: `battery AND (charger OR cable)`
+ * - Quoted phrases: `"stopped working"`
+ * - Negation: `NOT refund` or `-refund`
+ *
+ * Terms are matched on stems ("charging" matches "charger"'s stem
+ * "charg"), with optional edit-distance fuzzy matching for typos.
+ */
+
+import type { Review } from './judgeme-client.js';
+
+// Characters of context kept either side of the first highlighted match
+const SNIPPET_CONTEXT_CHARS = 80;
+
+// Title hits count for more than body hits when ranking
+const TITLE_WEIGHT = 2;
+const FUZZY_WEIGHT = 0.5;
+const PHRASE_WEIGHT = 3;
+
+export type QueryNode =
+  | { type: 'term'; value: string; stem: string }
+  | { type: 'phrase'; value: string; stems: string[] }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface SearchHit {
+  review: Review;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  fuzzy?: boolean;
+  reviewerName?: string;
+  productTitle?: string;
+}
+
+interface Token {
+  text: string;
+  stem: string;
+  start: number;
+  end: number;
+}
+
+interface FieldTokens {
+  title: Token[];
+  body: Token[];
+}
+
+interface EvalResult {
+  matched: boolean;
+  score: number;
+  // Token indexes to highlight, per field
+  title: Set<number>;
+  body: Set<number>;
+}
+
+// ============================================
+// TEXT PROCESSING
+// ============================================
+
+/**
+ * Light suffix-stripping stemmer. Not a full Porter implementation, but
+ * enough to fold plurals and common verb/adjective forms together.
+ */
+export function stem(word: string): string {
+  let w = word.toLowerCase().replace(/'s$/, '').replace(/'/g, '');
+  if (w.length <= 3) return w;
+
+  const rules: Array<[RegExp, string]> = [
+    [/ies$/, 'y'],
+    [/sses$/, 'ss'],
+    [/([^s])s$/, '$1'],
+    [/ingly$/, ''],
+    [/edly$/, ''],
+    [/ing$/, ''],
+    [/ed$/, ''],
+    [/ly$/, ''],
+    [/ers?$/, ''],
+    [/ment$/, ''],
+    [/ness$/, ''],
+    [/able$/, ''],
+  ];
+  for (const [pattern, replacement] of rules) {
+    const next = w.replace(pattern, replacement);
+    if (next !== w && next.length >= 3) {
+      w = next;
+    }
+  }
+  // Fold a trailing 'e' so "charge"/"charging"/"charged" share a stem
+  if (w.length > 3 && w.endsWith('e')) w = w.slice(0, -1);
+  return w;
+}
+
+function tokenize(text: string | null | undefined): Token[] {
+  const tokens: Token[] = [];
+  if (!text) return tokens;
+  for (const match of text.matchAll(/[\p{L}\p{N}']+/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({ text: match[0], stem: stem(match[0]), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and
+ * adjacent transpositions, with an early exit once `max` is exceeded.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        curr[j] = Math.min(curr[j], prevPrev[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/** Allowed edits for a fuzzy term: none for short words, more for long ones. */
+function fuzzyBudget(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+// ============================================
+// QUERY PARSING
+// ============================================
+
+type LexToken =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { kind: 'term'; value: string }
+  | { kind: 'phrase'; value: string };
+
+function lex(query: string): LexToken[] {
+  const out: LexToken[] = [];
+  const pattern = /\s*(?:(\()|(\))|"([^"]*)"?|(-)(?=\S)|([^\s()"]+))/gy;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) && match[0].length > 0) {
+    if (match[1]) out.push({ kind: 'lparen' });
+    else if (match[2]) out.push({ kind: 'rparen' });
+    else if (match[3] !== undefined) out.push({ kind: 'phrase', value: match[3] });
+    else if (match[4]) out.push({ kind: 'not' });
+    else if (match[5] === 'AND') out.push({ kind: 'and' });
+    else if (match[5] === 'OR') out.push({ kind: 'or' });
+    else if (match[5] === 'NOT') out.push({ kind: 'not' });
+    else out.push({ kind: 'term', value: match[5] });
+  }
+  return out;
+}
+
+/**
+ * Parses a search query into an AST. Operators must be uppercase so
+ * lowercase "and"/"or"/"not" are searched as ordinary words.
+ *
+ * @throws Error on unbalanced parentheses or an empty query
+ */
+export function parseQuery(query: string): QueryNode {
+  const tokens = lex(query);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseNot()];
+    while (pos < tokens.length && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      if (peek().kind === 'and') pos++;
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.kind === 'not') {
+      pos++;
+      return { type: 'not', child: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[pos++];
+    if (!token) {
+      throw new Error(`Invalid search query: unexpected end of query`);
+    }
+    if (token.kind === 'lparen') {
+      const node = parseOr();
+      if (tokens[pos++]?.kind !== 'rparen') {
+        throw new Error(`Invalid search query: missing closing parenthesis`);
+      }
+      return node;
+    }
+    if (token.kind === 'phrase') {
+      const stems = tokenize(token.value).map(t => t.stem);
+      if (stems.length === 0) throw new Error(`Invalid search query: empty phrase`);
+      return stems.length === 1
+        ? { type: 'term', value: token.value, stem: stems[0] }
+        : { type: 'phrase', value: token.value, stems };
+    }
+    if (token.kind === 'term') {
+      const stems = tokenize(token.value).map(t => t.stem);
+      if (stems.length === 1) return { type: 'term', value: token.value, stem: stems[0] };
+      if (stems.length > 1) return { type: 'phrase', value: token.value, stems };
+      throw new Error(`Invalid search query: "${token.value}" has no searchable characters`);
+    }
+    throw new Error(`Invalid search query: unexpected "${token.kind.toUpperCase()}"`);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Invalid search query: query is empty');
+  }
+  const root = parseOr();
+  if (pos < tokens.length) {
+    throw new Error('Invalid search query: unbalanced parentheses');
+  }
+  return root;
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function emptyResult(matched: boolean): EvalResult {
+  return { matched, score: 0, title: new Set(), body: new Set() };
+}
+
+function matchTerm(node: { stem: string }, fields: FieldTokens, fuzzy: boolean): EvalResult {
+  const result = emptyResult(false);
+  const budget = fuzzy ? fuzzyBudget(node.stem) : 0;
+
+  for (const field of ['title', 'body'] as const) {
+    const weight = field === 'title' ? TITLE_WEIGHT : 1;
+    fields[field].forEach((token, i) => {
+      if (token.stem === node.stem) {
+        result.score += weight;
+        result[field].add(i);
+      } else if (budget > 0 && editDistance(token.stem, node.stem, budget) <= budget) {
+        result.score += weight * FUZZY_WEIGHT;
+        result[field].add(i);
+      }
+    });
+  }
+  result.matched = result.score > 0;
+  return result;
+}
+
+function matchPhrase(node: { stems: string[] }, fields: FieldTokens): EvalResult {
+  const result = emptyResult(false);
+  const n = node.stems.length;
+
+  for (const field of ['title', 'body'] as const) {
+    const weight = (field === 'title' ? TITLE_WEIGHT : 1) * PHRASE_WEIGHT;
+    const tokens = fields[field];
+    for (let i = 0; i + n <= tokens.length; i++) {
+      if (node.stems.every((s, k) => tokens[i + k].stem === s)) {
+        result.score += weight;
+        for (let k = 0; k < n; k++) result[field].add(i + k);
+      }
+    }
+  }
+  result.matched = result.score > 0;
+  return result;
+}
+
+function evaluate(node: QueryNode, fields: FieldTokens, fuzzy: boolean): EvalResult {
+  switch (node.type) {
+    case 'term':
+      return matchTerm(node, fields, fuzzy);
+    case 'phrase':
+      return matchPhrase(node, fields);
+    case 'not': {
+      // Negated matches contribute no score or highlights
+      return emptyResult(!evaluate(node.child, fields, fuzzy).matched);
+    }
+    case 'and':
+    case 'or': {
+      const results = node.children.map(child => evaluate(child, fields, fuzzy));
+      const matched = node.type === 'and'
+        ? results.every(r => r.matched)
+        : results.some(r => r.matched);
+      const combined = emptyResult(matched);
+      if (!matched) return combined;
+      for (const r of results) {
+        if (!r.matched) continue;
+        combined.score += r.score;
+        r.title.forEach(i => combined.title.add(i));
+        r.body.forEach(i => combined.body.add(i));
+      }
+      return combined;
+    }
+  }
+}
+
+/**
+ * Builds a snippet around the first highlighted token, marking every
+ * highlighted token in the window with `**`. Falls back to the title
+ * when only the title matched.
+ */
+function buildSnippet(text: string, tokens: Token[], highlights: Set<number>): string {
+  const indexes = [...highlights].sort((a, b) => a - b);
+  if (indexes.length === 0) {
+    return text.length > SNIPPET_CONTEXT_CHARS * 2
+      ? `${text.slice(0, SNIPPET_CONTEXT_CHARS * 2).trimEnd()}…`
+      : text;
+  }
+
+  const first = tokens[indexes[0]];
+  const windowStart = Math.max(0, first.start - SNIPPET_CONTEXT_CHARS);
+  const windowEnd = Math.min(text.length, first.end + SNIPPET_CONTEXT_CHARS);
+
+  let snippet = '';
+  let cursor = windowStart;
+  for (const i of indexes) {
+    const token = tokens[i];
+    if (token.start < windowStart || token.end > windowEnd) continue;
+    snippet += `${text.slice(cursor, token.start)}**${token.text}**`;
+    cursor = token.end;
+  }
+  snippet += text.slice(cursor, windowEnd);
+
+  return `${windowStart > 0 ? '…' : ''}${snippet.trim()}${windowEnd < text.length ? '…' : ''}`;
+}
+
+/**
+ * Filters and ranks reviews against a query, best match first.
+ * Ties keep newest reviews first.
+ */
+export function rankReviews(reviews: Review[], query: string, options: SearchOptions = {}): SearchHit[] {
+  const root = parseQuery(query);
+  const reviewerName = options.reviewerName?.toLowerCase();
+  const productTitle = options.productTitle?.toLowerCase();
+  const hits: SearchHit[] = [];
+
+  for (const review of reviews) {
+    if (reviewerName && !review.reviewer?.name?.toLowerCase().includes(reviewerName)) continue;
+    if (productTitle && !review.product_title?.toLowerCase().includes(productTitle)) continue;
+
+    const fields: FieldTokens = { title: tokenize(review.title), body: tokenize(review.body) };
+    const result = evaluate(root, fields, options.fuzzy ?? false);
+    if (!result.matched) continue;
+
+    const snippet = result.body.size > 0 || result.title.size === 0
+      ? buildSnippet(review.body ?? '', fields.body, result.body)
+      : buildSnippet(review.title ?? '', fields.title, result.title);
+
+    hits.push({ review, score: Math.round(result.score * 100) / 100, snippet });
+  }
+
+  return hits.sort((a, b) =>
+    b.score - a.score || (Date.parse(b.review.created_at) || 0) - (Date.parse(a.review.created_at) || 0)
+  );
+}
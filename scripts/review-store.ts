@@ -0,0 +1,335 @@
+/**
+ * Judge.me Review Mirror
+ *
+ * Local SQLite copy of reviews, reviewers and products so bulk reads
+ * don't have to page through the API on every call.
+ *
+ * Key features:
+ * - Upserts from API payloads (full JSON kept alongside indexed columns)
+ * - Sync watermarks for incremental refreshes
+ * - List, count and full-text search with the same shapes as JudgemeClient
+ *
+ * The database lives in the plugin's git-ignored data/ directory.
+ */
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import type {
+  Review, Reviewer, Product, ReviewsResponse, ReviewCountResponse, SearchResult,
+} from './judgeme-client.js';
+import { rankReviews, type SearchOptions } from './review-search.js';
+import { activeFilters, filtersToSql, type FilterReport, type ReviewFilters } from './review-filters.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS reviews (
+    id INTEGER PRIMARY KEY,
+    product_external_id INTEGER,
+    reviewer_id INTEGER,
+    rating INTEGER,
+    curated TEXT,
+    published INTEGER,
+    hidden INTEGER,
+    verified TEXT,
+    title TEXT,
+    body TEXT,
+    created_at TEXT,
+    created_ts INTEGER,
+    updated_at TEXT,
+    updated_ts INTEGER,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS reviews_product ON reviews (product_external_id);
+  CREATE INDEX IF NOT EXISTS reviews_rating ON reviews (rating);
+  CREATE INDEX IF NOT EXISTS reviews_created ON reviews (created_ts);
+
+  CREATE TABLE IF NOT EXISTS reviewers (
+    id INTEGER PRIMARY KEY,
+    email TEXT,
+    name TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS reviewers_email ON reviewers (email);
+
+  CREATE TABLE IF NOT EXISTS products (
+    id INTEGER PRIMARY KEY,
+    external_id INTEGER,
+    title TEXT,
+    handle TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS products_external ON products (external_id);
+
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+export interface MirrorStats {
+  reviews: number;
+  reviewers: number;
+  products: number;
+  lastSyncedAt: string | null;
+  reviewsWatermark: string | null;
+}
+
+/** Parses an API timestamp to epoch ms, or null when absent/invalid. */
+function toTimestamp(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const ts = Date.parse(value);
+  return Number.isNaN(ts) ? null : ts;
+}
+
+export class ReviewStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    mkdirSync(dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ============================================
+  // SYNC STATE
+  // ============================================
+
+  getState(key: string): string | null {
+    const row = this.db.prepare('SELECT value FROM sync_state WHERE key = ?').get(key) as
+      { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  setState(key: string, value: string): void {
+    this.db.prepare(
+      'INSERT INTO sync_state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+    ).run(key, value);
+  }
+
+  getStats(): MirrorStats {
+    const count = (table: string) =>
+      (this.db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+    return {
+      reviews: count('reviews'),
+      reviewers: count('reviewers'),
+      products: count('products'),
+      lastSyncedAt: this.getState('last_synced_at'),
+      reviewsWatermark: this.getState('reviews_updated_at'),
+    };
+  }
+
+  // ============================================
+  // WRITES
+  // ============================================
+
+  /** Inserts or replaces reviews. Returns the number of rows written. */
+  upsertReviews(reviews: Review[]): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO reviews (id, product_external_id, reviewer_id, rating, curated, published, hidden,
+        verified, title, body, created_at, created_ts, updated_at, updated_ts, data)
+      VALUES (@id, @product_external_id, @reviewer_id, @rating, @curated, @published, @hidden,
+        @verified, @title, @body, @created_at, @created_ts, @updated_at, @updated_ts, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        product_external_id = excluded.product_external_id, reviewer_id = excluded.reviewer_id,
+        rating = excluded.rating, curated = excluded.curated, published = excluded.published,
+        hidden = excluded.hidden, verified = excluded.verified, title = excluded.title,
+        body = excluded.body, created_at = excluded.created_at, created_ts = excluded.created_ts,
+        updated_at = excluded.updated_at, updated_ts = excluded.updated_ts, data = excluded.data
+    `);
+    const write = this.db.transaction((rows: Review[]) => {
+      for (const r of rows) {
+        stmt.run({
+          id: r.id,
+          product_external_id: r.product_external_id ?? null,
+          reviewer_id: r.reviewer?.id ?? null,
+          rating: r.rating ?? null,
+          curated: r.curated ?? null,
+          published: r.published ? 1 : 0,
+          hidden: r.hidden ? 1 : 0,
+          verified: r.verified ?? null,
+          title: r.title ?? null,
+          body: r.body ?? null,
+          created_at: r.created_at ?? null,
+          created_ts: toTimestamp(r.created_at),
+          updated_at: r.updated_at ?? null,
+          updated_ts: toTimestamp(r.updated_at),
+          data: JSON.stringify(r),
+        });
+      }
+      return rows.length;
+    });
+    return write(reviews);
+  }
+
+  /**
+   * Inserts or merges reviewers. Reviews only embed id/name/email, so
+   * existing fields from a full reviewer record are preserved.
+   */
+  upsertReviewers(reviewers: Array<Partial<Reviewer> & { id: number }>): number {
+    const select = this.db.prepare('SELECT data FROM reviewers WHERE id = ?');
+    const stmt = this.db.prepare(`
+      INSERT INTO reviewers (id, email, name, data) VALUES (@id, @email, @name, @data)
+      ON CONFLICT(id) DO UPDATE SET email = excluded.email, name = excluded.name, data = excluded.data
+    `);
+    const write = this.db.transaction((rows: Array<Partial<Reviewer> & { id: number }>) => {
+      for (const r of rows) {
+        const existing = select.get(r.id) as { data: string } | undefined;
+        const merged = { ...(existing ? JSON.parse(existing.data) : {}), ...r };
+        stmt.run({ id: r.id, email: merged.email ?? null, name: merged.name ?? null, data: JSON.stringify(merged) });
+      }
+      return rows.length;
+    });
+    return write(reviewers);
+  }
+
+  /** Inserts or replaces products. Returns the number of rows written. */
+  upsertProducts(products: Product[]): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO products (id, external_id, title, handle, data)
+      VALUES (@id, @external_id, @title, @handle, @data)
+      ON CONFLICT(id) DO UPDATE SET external_id = excluded.external_id, title = excluded.title,
+        handle = excluded.handle, data = excluded.data
+    `);
+    const write = this.db.transaction((rows: Product[]) => {
+      for (const p of rows) {
+        stmt.run({
+          id: p.id,
+          external_id: p.external_id ?? null,
+          title: p.title ?? null,
+          handle: p.handle ?? null,
+          data: JSON.stringify(p),
+        });
+      }
+      return rows.length;
+    });
+    return write(products);
+  }
+
+  /**
+   * Deletes reviews missing from `seenIds`, the full set from a complete
+   * walk of the API. Returns the number of rows removed.
+   */
+  pruneReviews(seenIds: Set<number>): number {
+    return this.pruneTable('reviews', seenIds);
+  }
+
+  /** Deletes products missing from `seenIds` (Judge.me product IDs). */
+  pruneProducts(seenIds: Set<number>): number {
+    return this.pruneTable('products', seenIds);
+  }
+
+  private pruneTable(table: 'reviews' | 'products', seenIds: Set<number>): number {
+    const ids = (this.db.prepare(`SELECT id FROM ${table}`).all() as Array<{ id: number }>).map(r => r.id);
+    const stmt = this.db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    const remove = this.db.transaction((gone: number[]) => {
+      for (const id of gone) stmt.run(id);
+      return gone.length;
+    });
+    return remove(ids.filter(id => !seenIds.has(id)));
+  }
+
+  // ============================================
+  // READS
+  // ============================================
+
+  /** Builds the shared WHERE clause for review queries. */
+  private reviewFilter(options: { shopifyProductId?: number } & ReviewFilters): {
+    where: string;
+    params: Array<string | number>;
+    report: FilterReport;
+  } {
+    const { clauses, params } = filtersToSql(options);
+    if (options.shopifyProductId !== undefined) {
+      clauses.unshift('product_external_id = ?');
+      params.unshift(options.shopifyProductId);
+    }
+    return {
+      where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '',
+      params,
+      report: { api: [], client: [], local: activeFilters(options) },
+    };
+  }
+
+  /** Lists mirrored reviews newest first, paginated like the API. */
+  listReviews(options: {
+    page?: number;
+    perPage?: number;
+    shopifyProductId?: number;
+  } & ReviewFilters = {}): ReviewsResponse {
+    const page = options.page || 1;
+    const perPage = options.perPage || 10;
+    const { where, params, report } = this.reviewFilter(options);
+    const rows = this.db.prepare(
+      `SELECT data FROM reviews ${where} ORDER BY created_ts DESC, id DESC LIMIT ? OFFSET ?`
+    ).all(...params, perPage, (page - 1) * perPage) as Array<{ data: string }>;
+
+    return {
+      reviews: rows.map(row => JSON.parse(row.data) as Review),
+      current_page: page,
+      per_page: perPage,
+      filters: report,
+    };
+  }
+
+  /** Iterates every mirrored review matching the filters, newest first. */
+  *iterateReviews(options: { shopifyProductId?: number; maxItems?: number } & ReviewFilters = {}): Generator<Review> {
+    const { where, params } = this.reviewFilter(options);
+    const limit = options.maxItems !== undefined ? 'LIMIT ?' : '';
+    const rows = this.db.prepare(
+      `SELECT data FROM reviews ${where} ORDER BY created_ts DESC, id DESC ${limit}`
+    ).iterate(...params, ...(options.maxItems !== undefined ? [options.maxItems] : [])) as Iterable<{ data: string }>;
+
+    for (const row of rows) {
+      yield JSON.parse(row.data) as Review;
+    }
+  }
+
+  /** Counts mirrored reviews matching the filters. */
+  countReviews(options: { shopifyProductId?: number } & ReviewFilters = {}): ReviewCountResponse {
+    const { where, params, report } = this.reviewFilter(options);
+    const row = this.db.prepare(`SELECT COUNT(*) AS n FROM reviews ${where}`).get(...params) as { n: number };
+    return { count: row.n, filters: report, exact: true };
+  }
+
+  /**
+   * Full-text search over every mirrored review. Filters are applied in
+   * SQL; query matching and ranking are shared with the API path.
+   */
+  searchReviews(options: { search: string } & ReviewFilters & SearchOptions): SearchResult {
+    const { search, fuzzy, reviewerName, productTitle, ...filters } = options;
+    const { where, params, report } = this.reviewFilter(filters);
+    const rows = this.db.prepare(
+      `SELECT data FROM reviews ${where} ORDER BY created_ts DESC, id DESC`
+    ).all(...params) as Array<{ data: string }>;
+
+    const hits = rankReviews(
+      rows.map(row => JSON.parse(row.data) as Review),
+      search,
+      { fuzzy, reviewerName, productTitle }
+    );
+    return { reviews: hits.map(h => h.review), hits, pagesSearched: 0, totalMatches: hits.length, filters: report };
+  }
+
+  /** Every mirrored review by one reviewer, newest first. */
+  listReviewsByReviewer(reviewerId: number): Review[] {
+    const rows = this.db.prepare('SELECT data FROM reviews WHERE reviewer_id = ? ORDER BY created_ts DESC')
+      .all(reviewerId) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  getReviewer(id: number): Reviewer | null {
+    const row = this.db.prepare('SELECT data FROM reviewers WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  getProductByExternalId(externalId: number): Product | null {
+    const row = this.db.prepare('SELECT data FROM products WHERE external_id = ?').get(externalId) as
+      { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+}
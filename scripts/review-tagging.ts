@@ -0,0 +1,212 @@
+/**
+ * Review Sentiment and Topic Tagging
+ *
+ * Local, deterministic classifier: a small sentiment lexicon with
+ * negation and intensifier handling, plus a topic dictionary matched on
+ * word stems. No network model is involved, so the same review always
+ * gets the same tags.
+ *
+ * The topic dictionary has built-in defaults and can be edited through
+ * topics.json beside config.json: each key is a topic, each value a list
+ * of words or phrases. A key replaces the default of the same name, and
+ * an empty list turns a default topic off.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import type { Review } from './judgeme-client.js';
+import { stem } from './review-search.js';
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral' | 'mixed';
+
+export interface ReviewTags {
+  sentiment: SentimentLabel;
+  sentimentScore: number;   // -1 (negative) to 1 (positive)
+  topics: string[];
+}
+
+export type TopicDictionary = Record<string, string[]>;
+
+export interface TopicSummary {
+  topic: string;
+  mentions: number;
+  averageRating: number;
+  negative: number;         // Mentions in reviews tagged negative
+}
+
+export interface ProductTopics {
+  productExternalId: number;
+  productTitle: string;
+  reviews: number;
+  topics: TopicSummary[];   // Most mentioned first
+}
+
+export const DEFAULT_TOPICS: TopicDictionary = {
+  shipping: ['shipping', 'delivery', 'delivered', 'arrived', 'courier', 'tracking', 'late', 'lost in the mail', 'took weeks'],
+  battery: ['battery', 'charge', 'charging', 'charger', 'battery life', 'drains', 'runtime', 'power bank'],
+  fit: ['fit', 'fits', 'size', 'sizing', 'too small', 'too big', 'too tight', 'too loose', 'runs small', 'runs large'],
+  packaging: ['packaging', 'package', 'box', 'packed', 'wrapped', 'damaged box', 'arrived damaged', 'crushed'],
+  'customer service': ['customer service', 'support', 'refund', 'return', 'replacement', 'exchange', 'responded', 'no response', 'helpful staff'],
+  quality: ['quality', 'broke', 'broken', 'cheap', 'flimsy', 'sturdy', 'durable', 'defective', 'stopped working'],
+  price: ['price', 'value', 'expensive', 'overpriced', 'worth', 'money', 'cost'],
+};
+
+// Word weights; stems are looked up, so "loved"/"loving" hit "love"
+const LEXICON: Record<string, number> = Object.fromEntries(Object.entries({
+  love: 3, great: 3, excellent: 3, amazing: 3, awesome: 3, perfect: 3, fantastic: 3, best: 3,
+  wonderful: 3, outstanding: 3, superb: 3, happy: 2, good: 2, nice: 2, recommend: 2, pleased: 2,
+  satisfied: 2, quick: 1, fast: 1, easy: 1, comfortable: 2, beautiful: 2, sturdy: 1, durable: 1,
+  works: 1, helpful: 2, friendly: 2, reliable: 2, impressed: 2, solid: 1, glad: 2, fine: 1,
+  bad: -2, terrible: -3, awful: -3, horrible: -3, worst: -3, hate: -3, poor: -2, disappointed: -2,
+  disappointing: -2, useless: -3, broken: -2, broke: -2, defective: -3, cheap: -1, flimsy: -2,
+  slow: -1, late: -1, refund: -1, return: -1, waste: -3, problem: -1, issue: -1,
+  damaged: -2, missing: -2, wrong: -2, rude: -2, unhelpful: -2, scam: -3, fake: -3, leak: -2,
+  leaks: -2, overpriced: -2, expensive: -1, uncomfortable: -2, stopped: -1, failed: -2, fails: -2,
+}).map(([word, weight]) => [stem(word), weight]));
+
+const NEGATORS = new Set(['not', 'no', 'never', 'hardly', 'without', 'nothing', 'none', 'nor']);
+const INTENSIFIERS = new Set(['very', 'really', 'extremely', 'super', 'so', 'incredibly', 'totally', 'absolutely']);
+
+// Words after a negator that get their polarity flipped
+const NEGATION_WINDOW = 3;
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []);
+}
+
+function isNegator(word: string): boolean {
+  return NEGATORS.has(word) || word.endsWith("n't");
+}
+
+/** Lexicon sentiment of a piece of text, with positive and negative totals. */
+function scoreText(text: string): { score: number; positive: number; negative: number } {
+  let positive = 0;
+  let negative = 0;
+  let negateFor = 0;
+  let boost = 1;
+
+  for (const word of words(text)) {
+    if (isNegator(word)) {
+      negateFor = NEGATION_WINDOW;
+      continue;
+    }
+    if (INTENSIFIERS.has(word)) {
+      boost = 1.5;
+      continue;
+    }
+    let weight = LEXICON[stem(word)] ?? 0;
+    if (weight !== 0) {
+      weight *= boost;
+      // "not good" is negative, "not bad" only mildly positive
+      if (negateFor > 0) weight = weight > 0 ? -weight : -weight / 2;
+      if (weight > 0) positive += weight;
+      else negative -= weight;
+    }
+    boost = 1;
+    if (negateFor > 0) negateFor--;
+  }
+
+  const sum = positive - negative;
+  return { score: sum / (Math.abs(sum) + 4), positive, negative };
+}
+
+/** Reads topics.json (if present) over the defaults. */
+export function loadTopicDictionary(path: string): TopicDictionary {
+  const dictionary: TopicDictionary = { ...DEFAULT_TOPICS };
+  if (!existsSync(path)) return dictionary;
+
+  const custom = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+  for (const [topic, terms] of Object.entries(custom)) {
+    if (!Array.isArray(terms) || terms.some(t => typeof t !== 'string')) {
+      throw new Error(`Invalid topic "${topic}" in ${path}: expected a list of words or phrases`);
+    }
+    if (terms.length === 0) delete dictionary[topic];
+    else dictionary[topic] = terms as string[];
+  }
+  return dictionary;
+}
+
+export class ReviewTagger {
+  // Each topic as a list of stem sequences (one per word or phrase)
+  private patterns: Array<{ topic: string; sequences: string[][] }>;
+
+  constructor(dictionary: TopicDictionary = DEFAULT_TOPICS) {
+    this.patterns = Object.entries(dictionary).map(([topic, terms]) => ({
+      topic,
+      sequences: terms.map(term => words(term).map(stem)).filter(seq => seq.length > 0),
+    }));
+  }
+
+  get topics(): string[] {
+    return this.patterns.map(p => p.topic);
+  }
+
+  tag(review: Pick<Review, 'title' | 'body'>): ReviewTags {
+    const text = `${review.title ?? ''}. ${review.body ?? ''}`;
+    const { score, positive, negative } = scoreText(text);
+
+    let sentiment: SentimentLabel = 'neutral';
+    if (score >= 0.25) sentiment = 'positive';
+    else if (score <= -0.25) sentiment = 'negative';
+    else if (positive >= 2 && negative >= 2) sentiment = 'mixed';
+
+    const stems = words(text).map(stem);
+    const topics = this.patterns
+      .filter(({ sequences }) => sequences.some(seq => containsSequence(stems, seq)))
+      .map(p => p.topic);
+
+    return { sentiment, sentimentScore: Math.round(score * 100) / 100, topics };
+  }
+}
+
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+/** Per-product topic counts, with average rating and negative share per topic. */
+export function summarizeTopics(reviews: Review[], tagger: ReviewTagger): ProductTopics[] {
+  const products = new Map<number, {
+    title: string;
+    reviews: number;
+    topics: Map<string, { mentions: number; ratingSum: number; negative: number }>;
+  }>();
+
+  for (const review of reviews) {
+    const tags = tagger.tag(review);
+    const product = products.get(review.product_external_id) ?? {
+      title: review.product_title ?? '',
+      reviews: 0,
+      topics: new Map(),
+    };
+    product.reviews++;
+    for (const topic of tags.topics) {
+      const stats = product.topics.get(topic) ?? { mentions: 0, ratingSum: 0, negative: 0 };
+      stats.mentions++;
+      stats.ratingSum += review.rating;
+      if (tags.sentiment === 'negative') stats.negative++;
+      product.topics.set(topic, stats);
+    }
+    products.set(review.product_external_id, product);
+  }
+
+  return [...products.entries()]
+    .map(([productExternalId, p]) => ({
+      productExternalId,
+      productTitle: p.title,
+      reviews: p.reviews,
+      topics: [...p.topics.entries()]
+        .map(([topic, s]) => ({
+          topic,
+          mentions: s.mentions,
+          averageRating: Math.round((s.ratingSum / s.mentions) * 100) / 100,
+          negative: s.negative,
+        }))
+        .sort((a, b) => b.mentions - a.mentions || a.averageRating - b.averageRating),
+    }))
+    .sort((a, b) => b.reviews - a.reviews || a.productExternalId - b.productExternalId);
+}
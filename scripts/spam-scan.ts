@@ -0,0 +1,239 @@
+/**
+ * Spam and Fake-Review Scoring
+ *
+ * Heuristic scores for a batch of reviews. Each heuristic adds a weighted
+ * reason; the score is the sum, capped at 1. Nothing here changes a
+ * review: the ranked output is meant for a human, or for a
+ * `bulk-curate --dry-run` preview.
+ *
+ * Heuristics:
+ * - duplicate / near-duplicate bodies from different reviewers
+ * - bursts of reviews from one email domain (we have no IPs)
+ * - unverified 5-star reviews clustered in time on one product
+ * - URLs, emails or phone numbers in the text
+ * - one reviewer posting many reviews within minutes
+ */
+
+import type { Review } from './judgeme-client.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export type SpamReasonCode =
+  | 'duplicate-body'
+  | 'near-duplicate-body'
+  | 'domain-burst'
+  | 'unverified-5star-cluster'
+  | 'contact-or-link'
+  | 'reviewer-burst';
+
+export interface SpamReason {
+  code: SpamReasonCode;
+  weight: number;
+  detail: string;
+  relatedIds?: number[];
+}
+
+export interface SpamCandidate {
+  review: Review;
+  score: number;
+  reasons: SpamReason[];
+}
+
+export interface SpamScanOptions {
+  minScore?: number;            // Drop candidates below this (default: 0.3)
+  nearDuplicateSimilarity?: number;  // Shingle Jaccard threshold (default: 0.8)
+  includeCurated?: boolean;     // Also rank reviews already curated as spam
+}
+
+const WEIGHTS: Record<SpamReasonCode, number> = {
+  'duplicate-body': 0.6,
+  'near-duplicate-body': 0.45,
+  'domain-burst': 0.3,
+  'unverified-5star-cluster': 0.3,
+  'contact-or-link': 0.35,
+  'reviewer-burst': 0.4,
+};
+
+// Domains shared by too many real customers for a burst to mean anything
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'icloud.com',
+  'me.com', 'aol.com', 'msn.com', 'proton.me', 'protonmail.com', 'gmx.com', 'gmx.de', 'web.de',
+  'mail.com', 'yandex.com', 'qq.com',
+]);
+
+const DOMAIN_BURST = { count: 3, windowMs: 24 * HOUR_MS };
+const UNVERIFIED_CLUSTER = { count: 4, windowMs: 6 * HOUR_MS };
+const REVIEWER_BURST = { count: 3, windowMs: 10 * MINUTE_MS };
+
+// Bodies shorter than this many words are too generic to compare ("Great product!")
+const MIN_WORDS_FOR_DUPLICATE = 5;
+const SHINGLE_SIZE = 3;
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|shop|store|xyz|info|biz)\b/i;
+const EMAIL_PATTERN = /\b[^\s@]+@[^\s@]+\.[a-z]{2,}\b/i;
+const PHONE_PATTERN = /(?:\+?\d[\s().-]?){9,}\d/;
+
+function normalizeBody(text: string | null | undefined): string[] {
+  return (text ?? '').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function reviewerKey(review: Review): string {
+  return review.reviewer?.email?.toLowerCase() || `id:${review.reviewer?.id ?? review.id}`;
+}
+
+function shingles(words: string[]): Set<string> {
+  const set = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    set.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return set;
+}
+
+/**
+ * Finds runs where at least `count` reviews fall within `windowMs` of
+ * each other. Overlapping windows are merged into one cluster.
+ */
+function clustered(reviews: Review[], count: number, windowMs: number): Review[][] {
+  const sorted = [...reviews].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+
+  for (let end = 0; end < sorted.length; end++) {
+    const endTs = Date.parse(sorted[end].created_at);
+    while (endTs - Date.parse(sorted[start].created_at) > windowMs) start++;
+    if (end - start + 1 < count) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else ranges.push([start, end]);
+  }
+  return ranges.map(([from, to]) => sorted.slice(from, to + 1));
+}
+
+function groupBy<K>(reviews: Review[], key: (review: Review) => K | null): Map<K, Review[]> {
+  const groups = new Map<K, Review[]>();
+  for (const review of reviews) {
+    const k = key(review);
+    if (k === null) continue;
+    const group = groups.get(k) ?? [];
+    group.push(review);
+    groups.set(k, group);
+  }
+  return groups;
+}
+
+/** Scores every review and returns candidates at or above `minScore`, highest first. */
+export function scoreSpamCandidates(reviews: Review[], options: SpamScanOptions = {}): SpamCandidate[] {
+  const minScore = options.minScore ?? 0.3;
+  const similarity = options.nearDuplicateSimilarity ?? 0.8;
+  const reasons = new Map<number, SpamReason[]>();
+  const add = (review: Review, code: SpamReasonCode, detail: string, relatedIds?: number[]) => {
+    const list = reasons.get(review.id) ?? [];
+    // One reason of each kind per review is enough
+    if (list.some(r => r.code === code)) return;
+    list.push({ code, weight: WEIGHTS[code], detail, ...(relatedIds ? { relatedIds } : {}) });
+    reasons.set(review.id, list);
+  };
+
+  // Duplicate and near-duplicate bodies across different reviewers
+  const bodies = reviews.map(review => ({ review, words: normalizeBody(review.body) }))
+    .filter(b => b.words.length >= MIN_WORDS_FOR_DUPLICATE);
+  for (const [, group] of groupBy(bodies.map(b => b.review), r => normalizeBody(r.body).join(' '))) {
+    const reviewers = new Set(group.map(reviewerKey));
+    if (group.length > 1 && reviewers.size > 1) {
+      for (const review of group) {
+        add(review, 'duplicate-body', `Same text as ${group.length - 1} other review(s) from different reviewers`,
+          group.filter(r => r !== review).map(r => r.id));
+      }
+    }
+  }
+
+  // Inverted shingle index keeps near-duplicate search from comparing every pair
+  const shingleSets = bodies.map(b => shingles(b.words));
+  const index = new Map<string, number[]>();
+  shingleSets.forEach((set, i) => {
+    for (const shingle of set) {
+      const list = index.get(shingle) ?? [];
+      list.push(i);
+      index.set(shingle, list);
+    }
+  });
+  shingleSets.forEach((set, i) => {
+    const shared = new Map<number, number>();
+    for (const shingle of set) {
+      for (const j of index.get(shingle)!) {
+        if (j > i) shared.set(j, (shared.get(j) ?? 0) + 1);
+      }
+    }
+    for (const [j, overlap] of shared) {
+      const a = bodies[i].review;
+      const b = bodies[j].review;
+      if (reviewerKey(a) === reviewerKey(b)) continue;
+      const jaccard = overlap / (set.size + shingleSets[j].size - overlap);
+      if (jaccard >= similarity && jaccard < 1) {
+        const detail = `${Math.round(jaccard * 100)}% similar to review ${b.id} from another reviewer`;
+        add(a, 'near-duplicate-body', detail, [b.id]);
+        add(b, 'near-duplicate-body', `${Math.round(jaccard * 100)}% similar to review ${a.id} from another reviewer`, [a.id]);
+      }
+    }
+  });
+
+  // Bursts from one (non-free-mail) email domain
+  const byDomain = groupBy(reviews, r => {
+    const domain = r.reviewer?.email?.split('@')[1]?.toLowerCase();
+    // Only plain hostnames; the domain ends up in metadata, outside the untrusted wrapper
+    return domain && /^[a-z0-9.-]+$/.test(domain) && !FREE_MAIL_DOMAINS.has(domain) ? domain : null;
+  });
+  for (const [domain, group] of byDomain) {
+    for (const cluster of clustered(group, DOMAIN_BURST.count, DOMAIN_BURST.windowMs)) {
+      // One prolific reviewer is the reviewer-burst heuristic's job
+      if (new Set(cluster.map(reviewerKey)).size < DOMAIN_BURST.count) continue;
+      for (const review of cluster) {
+        add(review, 'domain-burst', `${cluster.length} reviews from @${domain} within 24h`,
+          cluster.filter(r => r !== review).map(r => r.id));
+      }
+    }
+  }
+
+  // Unverified 5-star reviews bunched together on one product
+  const unverifiedFive = reviews.filter(r => r.rating === 5 && r.verified !== 'buyer');
+  for (const [, group] of groupBy(unverifiedFive, r => r.product_external_id)) {
+    for (const cluster of clustered(group, UNVERIFIED_CLUSTER.count, UNVERIFIED_CLUSTER.windowMs)) {
+      for (const review of cluster) {
+        add(review, 'unverified-5star-cluster', `${cluster.length} unverified 5-star reviews on this product within 6h`,
+          cluster.filter(r => r !== review).map(r => r.id));
+      }
+    }
+  }
+
+  // Links and contact details
+  for (const review of reviews) {
+    const text = `${review.title ?? ''} ${review.body ?? ''}`;
+    const found = [
+      URL_PATTERN.test(text) ? 'link' : null,
+      EMAIL_PATTERN.test(text) ? 'email address' : null,
+      PHONE_PATTERN.test(text) ? 'phone number' : null,
+    ].filter(Boolean);
+    if (found.length > 0) add(review, 'contact-or-link', `Text contains a ${found.join(', ')}`);
+  }
+
+  // One reviewer posting many reviews within minutes
+  for (const [, group] of groupBy(reviews, reviewerKey)) {
+    for (const cluster of clustered(group, REVIEWER_BURST.count, REVIEWER_BURST.windowMs)) {
+      for (const review of cluster) {
+        add(review, 'reviewer-burst', `Reviewer posted ${cluster.length} reviews within 10 minutes`,
+          cluster.filter(r => r !== review).map(r => r.id));
+      }
+    }
+  }
+
+  return reviews
+    .filter(review => options.includeCurated || review.curated !== 'spam')
+    .map(review => {
+      const list = (reasons.get(review.id) ?? []).sort((a, b) => b.weight - a.weight);
+      const score = Math.min(1, list.reduce((sum, r) => sum + r.weight, 0));
+      return { review, score: Math.round(score * 100) / 100, reasons: list };
+    })
+    .filter(candidate => candidate.reasons.length > 0 && candidate.score >= minScore)
+    .sort((a, b) => b.score - a.score || Date.parse(b.review.created_at) - Date.parse(a.review.created_at));
+}
@@ -0,0 +1,147 @@
+/**
+ * Persistent Stale-While-Revalidate Cache
+ *
+ * Optional cache layer (`cache.staleWhileRevalidate` in config) that
+ * keeps responses on disk between runs. A fresh entry is returned as-is;
+ * a stale one (older than its TTL but within `maxStaleMs`) is returned
+ * immediately while a background fetch replaces it, so a new agent
+ * session gets answers without waiting on the API. Anything older, or
+ * missing, is fetched before returning.
+ *
+ * One JSON file per key, named by a hash of the key. Invalidation
+ * deletes the file, so mutations are never answered from stale data.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+interface StoredEntry<T> {
+  key: string;
+  storedAt: number;          // epoch ms
+  value: T;
+}
+
+export interface SwrStats {
+  entries: number;
+  fresh: number;             // Served fresh
+  stale: number;             // Served stale, refreshed in the background
+  misses: number;            // Fetched before answering
+  refreshes: number;         // Background refreshes that completed
+  refreshErrors: number;
+  lastRefreshError?: string;
+}
+
+export class StaleWhileRevalidateCache {
+  private inFlight = new Map<string, Promise<unknown>>();
+  private counters = { fresh: 0, stale: 0, misses: 0, refreshes: 0, refreshErrors: 0 };
+  private lastRefreshError?: string;
+
+  /**
+   * @param dir - Directory holding one file per entry
+   * @param maxStaleMs - How long past its TTL an entry may still be served
+   * @param redact - Scrubs secrets from refresh errors kept for stats
+   */
+  constructor(
+    private dir: string,
+    private maxStaleMs: number,
+    private redact: (text: string) => string = text => text
+  ) {}
+
+  async get<T>(key: string, freshMs: number, fetcher: () => Promise<T>): Promise<T> {
+    const entry = this.read<T>(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age < freshMs) {
+      this.counters.fresh++;
+      return entry.value;
+    }
+    if (entry && age < freshMs + this.maxStaleMs) {
+      this.counters.stale++;
+      // A failed refresh leaves the stale entry; the next read tries again
+      this.refresh(key, fetcher).then(
+        () => { this.counters.refreshes++; },
+        error => {
+          this.counters.refreshErrors++;
+          this.lastRefreshError = this.redact(error instanceof Error ? error.message : String(error));
+        }
+      );
+      return entry.value;
+    }
+
+    this.counters.misses++;
+    return this.refresh(key, fetcher);
+  }
+
+  /** Resolves once every background refresh started so far has settled. */
+  async settled(): Promise<void> {
+    await Promise.allSettled([...this.inFlight.values()]);
+  }
+
+  delete(key: string): boolean {
+    const path = this.pathFor(key);
+    if (!existsSync(path)) return false;
+    unlinkSync(path);
+    return true;
+  }
+
+  /** Removes every entry. @returns Number of entries removed */
+  clear(): number {
+    const files = this.files();
+    for (const file of files) unlinkSync(join(this.dir, file));
+    return files.length;
+  }
+
+  stats(): SwrStats {
+    return {
+      entries: this.files().length,
+      ...this.counters,
+      ...(this.lastRefreshError ? { lastRefreshError: this.lastRefreshError } : {}),
+    };
+  }
+
+  /** One fetch per key at a time; concurrent callers share it. */
+  private refresh<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = fetcher()
+      .then(value => {
+        this.write(key, value);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private read<T>(key: string): StoredEntry<T> | null {
+    const path = this.pathFor(key);
+    if (!existsSync(path)) return null;
+    try {
+      const entry = JSON.parse(readFileSync(path, 'utf-8')) as StoredEntry<T>;
+      // Guard against hash collisions
+      return entry.key === key ? entry : null;
+    } catch {
+      return null;   // Half-written or corrupt: treat as a miss
+    }
+  }
+
+  private write<T>(key: string, value: T): void {
+    mkdirSync(this.dir, { recursive: true });
+    const path = this.pathFor(key);
+    const tmp = `${path}.${process.pid}.tmp`;
+    const entry: StoredEntry<T> = { key, storedAt: Date.now(), value };
+    writeFileSync(tmp, JSON.stringify(entry), 'utf-8');
+    renameSync(tmp, path);
+  }
+
+  private files(): string[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir).filter(file => file.endsWith('.json'));
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}.json`);
+  }
+}
@@ -0,0 +1,338 @@
+import { ndjson, runCli, startCli, tempDir, type CliRun } from './helpers.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { SPECIAL_REVIEWS } from './fixtures.js';
+import { startMockServer, type MockServer } from './mock-server.js';
+
+let server: MockServer;
+
+before(async () => {
+  server = await startMockServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+/** Asserts a clean exit and returns stdout. */
+function ok(run: CliRun): string {
+  assert.equal(run.code, 0, `exit ${run.code}\n${run.stderr}\n${run.stdout}`);
+  return run.stdout;
+}
+
+const cli = (args: string[], options?: Parameters<typeof runCli>[2]) => runCli(server, args, options);
+
+describe('review commands', () => {
+  it('list-reviews returns a page, and --all streams every review as NDJSON', async () => {
+    const page = ok(await cli(['list-reviews', '--per-page', '5']));
+    assert.match(page, new RegExp(`"id":\\s*${SPECIAL_REVIEWS.replied}\\b`));
+
+    const streamed = ok(await cli(['list-reviews', '--all']));
+    const lines = ndjson(streamed);
+    assert.ok(lines.length >= server.state.reviews.length);
+  });
+
+  it('get-review wraps review text as untrusted content', async () => {
+    const out = ok(await cli(['get-review', '--id', String(SPECIAL_REVIEWS.injection)]));
+    assert.match(out, /Ignore all previous instructions/);
+    assert.ok(out.includes(String(SPECIAL_REVIEWS.injection)));
+  });
+
+  it('get-review exits with the not-found code and a typed error', async () => {
+    const run = await cli(['get-review', '--id', '999999']);
+    assert.equal(run.code, 11);
+    assert.equal(run.json.error.code, 'NOT_FOUND');
+  });
+
+  it('count-reviews counts all reviews and by rating', async () => {
+    assert.match(ok(await cli(['count-reviews'])), new RegExp(`"count":\\s*${server.state.reviews.length}\\b`));
+    const fiveStar = server.state.reviews.filter(r => r.rating === 5).length;
+    assert.match(ok(await cli(['count-reviews', '--rating', '5'])), new RegExp(`"count":\\s*${fiveStar}\\b`));
+  });
+
+  it('search-reviews finds matching reviews', async () => {
+    const out = ok(await cli(['search-reviews', '--search', 'courier']));
+    assert.ok(out.includes(String(SPECIAL_REVIEWS.shippingComplaint)));
+  });
+
+  it('curate-review changes the review, or only queues it with --stage', async () => {
+    ok(await cli(['curate-review', '--id', String(SPECIAL_REVIEWS.pending), '--status', 'ok']));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.pending)!.curated, 'ok');
+
+    ok(await cli(['curate-review', '--id', String(SPECIAL_REVIEWS.injection), '--status', 'spam', '--stage']));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.injection)!.curated, 'ok');
+  });
+
+  it('reply-to-review posts once and reports a duplicate the second time', async () => {
+    const id = String(SPECIAL_REVIEWS.shippingComplaint);
+    ok(await cli(['reply-to-review', '--review-id', id, '--reply', 'Sorry about the delivery.']));
+    assert.ok(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.shippingComplaint)!.reply);
+
+    const again = await cli(['reply-to-review', '--review-id', id, '--reply', 'Sorry again.']);
+    assert.equal(again.code, 17);
+    assert.equal(again.json.error.code, 'DUPLICATE');
+  });
+
+  it('reply-to-review previews a template without posting', async () => {
+    ok(await cli(['reply-to-review', '--review-id', String(SPECIAL_REVIEWS.injection), '--template', 'thanks-5star', '--preview']));
+    assert.equal(server.requests.filter(r => r.method === 'POST').length, 0);
+  });
+
+  it('private-reply sends an email', async () => {
+    ok(await cli(['private-reply', '--review-id', String(SPECIAL_REVIEWS.shippingComplaint),
+      '--subject', 'Your order', '--body', 'A replacement is on its way.']));
+    assert.equal(server.state.privateReplies.length, 1);
+  });
+
+  it('list-templates lists the shipped templates', async () => {
+    assert.match(ok(await cli(['list-templates'])), /thanks-5star/);
+  });
+});
+
+describe('bulk curation and the approval queue', () => {
+  it('bulk-curate previews, confirms and undoes a batch', async () => {
+    const dataDir = tempDir('cli-data');
+    const ids = `${SPECIAL_REVIEWS.duplicateA},${SPECIAL_REVIEWS.duplicateB}`;
+    const preview = ok(await cli(['bulk-curate', '--dry-run', '--status', 'spam', '--ids', ids], { dataDir }));
+    const batchId = preview.match(/bc-[a-z0-9]+-[0-9a-f]{6}/)![0];
+    assert.equal(server.requests.filter(r => r.method === 'PUT').length, 0);
+
+    ok(await cli(['bulk-curate', '--confirm', batchId], { dataDir }));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.duplicateA)!.curated, 'spam');
+
+    ok(await cli(['bulk-curate', '--undo', batchId], { dataDir }));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.duplicateA)!.curated, 'ok');
+  });
+
+  it('bulk-curate --confirm queues each review in staged mode', async () => {
+    const dataDir = tempDir('cli-data');
+    const overrides = { stagedMode: true };
+    const ids = `${SPECIAL_REVIEWS.duplicateA},${SPECIAL_REVIEWS.duplicateB}`;
+    const preview = ok(await cli(['bulk-curate', '--dry-run', '--status', 'spam', '--ids', ids], { dataDir, overrides }));
+    const batchId = preview.match(/bc-[a-z0-9]+-[0-9a-f]{6}/)![0];
+
+    const run = await cli(['bulk-curate', '--confirm', batchId], { dataDir, overrides });
+    ok(run);
+    assert.equal(run.json.staged.length, 2);
+    assert.equal(run.json.changed.length, 0);
+    assert.equal(server.requests.filter(r => r.method === 'PUT').length, 0);
+
+    // Re-running doesn't queue the same reviews twice
+    assert.equal((await cli(['bulk-curate', '--confirm', batchId], { dataDir, overrides })).json.skipped.length, 2);
+
+    ok(await cli(['approve-all', '--by', 'tester'], { dataDir, overrides }));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.duplicateA)!.curated, 'spam');
+    // Approved batch curations are journaled, so the batch can still be undone
+    ok(await cli(['bulk-curate', '--undo', batchId], { dataDir }));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.duplicateA)!.curated, 'ok');
+  });
+
+  it('stages actions, then rejects, approves and approves all', async () => {
+    const dataDir = tempDir('cli-data');
+    const stage = async (id: number) => {
+      const out = ok(await cli(['curate-review', '--id', String(id), '--status', 'spam', '--stage'], { dataDir }));
+      return out.match(/pa-[a-z0-9]+-[0-9a-f]{6}/)![0];
+    };
+    const first = await stage(SPECIAL_REVIEWS.duplicateA);
+    const second = await stage(SPECIAL_REVIEWS.duplicateB);
+    const third = await stage(SPECIAL_REVIEWS.injection);
+
+    assert.ok(ok(await cli(['pending-actions', 'list', '--status', 'pending'], { dataDir })).includes(first));
+
+    ok(await cli(['reject', first, '--by', 'tester', '--reason', 'not spam'], { dataDir }));
+    ok(await cli(['approve', '--id', second, '--by', 'tester'], { dataDir }));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.duplicateB)!.curated, 'spam');
+
+    assert.ok(ok(await cli(['approve-all', '--by', 'tester'], { dataDir })).includes(third));
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.injection)!.curated, 'spam');
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.duplicateA)!.curated, 'ok');
+  });
+
+  it('approve exits with the failure\'s code when the action fails', async () => {
+    const dataDir = tempDir('cli-data');
+    const out = ok(await cli(['curate-review', '--id', String(SPECIAL_REVIEWS.injection), '--status', 'spam', '--stage'], { dataDir }));
+    const id = out.match(/pa-[a-z0-9]+-[0-9a-f]{6}/)![0];
+    // Deleted on Judge.me between staging and approval
+    server.state.reviews.splice(server.state.reviews.findIndex(r => r.id === SPECIAL_REVIEWS.injection), 1);
+
+    const run = await cli(['approve', id, '--by', 'tester'], { dataDir });
+    assert.equal(run.code, 11);
+    assert.match(run.stdout, /"status":\s*"failed"/);
+  });
+
+  it('audit-log shows logged calls', async () => {
+    const dataDir = tempDir('cli-data');
+    ok(await cli(['curate-review', '--id', String(SPECIAL_REVIEWS.pending), '--status', 'ok'], { dataDir }));
+    const out = ok(await cli(['audit-log', '--review-id', String(SPECIAL_REVIEWS.pending)], { dataDir }));
+    assert.match(out, /"count":\s*1\b/);
+  });
+});
+
+describe('webhook commands', () => {
+  const RECORDED = join(dirname(fileURLToPath(import.meta.url)), 'recorded-webhooks.jsonl');
+
+  it('serves, replays signed deliveries, then consumes the queued events', async () => {
+    const dataDir = tempDir('cli-data');
+    const serve = await startCli(server, ['webhook', 'serve', '--port', '0'], /listening on (\S+)/, { dataDir });
+    let stopped = false;
+    try {
+      const replay = await cli(['webhook', 'replay', '--file', RECORDED, '--url', serve.match[1], '--sign'], { dataDir });
+      ok(replay);
+      assert.equal(replay.json.sent, 4);
+      assert.equal(replay.json.accepted, 4);
+
+      const served = await serve.stop();
+      stopped = true;
+      assert.equal(served.code, 0, served.stderr);
+      assert.match(served.stdout, /"received":\s*3\b/);
+    } finally {
+      if (!stopped) await serve.stop();
+    }
+
+    const events = ok(await cli(['webhook', 'events', '--consumer', 'x', '--ack'], { dataDir }));
+    assert.match(events, /"count":\s*3\b/);
+    assert.match(events, /"acknowledged":\s*true/);
+    assert.match(ok(await cli(['webhook', 'events', '--consumer', 'x'], { dataDir })), /"count":\s*0\b/);
+  });
+});
+
+describe('reviewer, shop and product commands', () => {
+  it('get-reviewer looks up by ID and email', async () => {
+    assert.match(ok(await cli(['get-reviewer', '--id', '1'])), /ana@example\.com/);
+    assert.match(ok(await cli(['get-reviewer', '--email', 'ben@example.org'])), /"id":\s*2\b/);
+  });
+
+  it('reviewer-profile includes history, and --redact-pii drops contact details', async () => {
+    const full = ok(await cli(['reviewer-profile', '--id', '1']));
+    assert.match(full, /ana@example\.com/);
+    assert.match(full, /"reviewCount":\s*\d+/);
+
+    const redacted = ok(await cli(['reviewer-profile', '--id', '1', '--redact-pii']));
+    assert.doesNotMatch(redacted, /ana@example\.com|\+15550000001|Ana Lima/);
+  });
+
+  it('--redact-pii masks the known name and email in review text and private replies', async () => {
+    const dataDir = tempDir('cli-data');
+    const review = server.state.reviews.find(r => r.reviewer.id === 1)!;
+    review.body = 'Ana Lima here, love them. Write to ana@example.com if needed.';
+    ok(await cli(['private-reply', '--review-id', String(review.id),
+      '--subject', 'Thanks Ana', '--body', 'Hi Ana Lima, a voucher is on its way.'], { dataDir }));
+
+    const redacted = ok(await cli(['reviewer-profile', '--id', '1', '--redact-pii'], { dataDir }));
+    assert.doesNotMatch(redacted, /\bAna\b|Lima|ana@example\.com/);
+    assert.match(redacted, /a voucher is on its way/);
+  });
+
+  it('shop-info returns the shop', async () => {
+    assert.match(ok(await cli(['shop-info'])), /Test Store/);
+  });
+
+  it('list-products and lookup-product', async () => {
+    assert.match(ok(await cli(['list-products'])), /merino-wool-socks/);
+    const lookup = ok(await cli(['lookup-product', '--shopify-id', '9002']));
+    assert.match(lookup, /"id":\s*502\b/);
+    assert.match(lookup, /"reviews_count":\s*\d+/);
+    assert.match(lookup, /"average_rating":\s*[\d.]+/);
+    assert.match(ok(await cli(['lookup-product', '--title', 'socks'])), /9003/);
+    assert.equal((await cli(['lookup-product', '--shopify-id', '1'])).code, 11);
+  });
+});
+
+describe('analysis commands', () => {
+  it('analytics reports overall and per-product stats', async () => {
+    const run = await cli(['analytics', '--created-after', '30d']);
+    assert.match(ok(run), /"overall"/);
+    assert.ok(run.stderr.length > 0);
+  });
+
+  it('analyze-reviews and topics tag reviews', async () => {
+    assert.match(ok(await cli(['analyze-reviews', '--limit', '20', '--summary-only'])), /"sentiment"/);
+    assert.match(ok(await cli(['topics', '--limit', '50'])), /shipping/);
+  });
+
+  it('spam-scan ranks the planted spam and writes an ID file', async () => {
+    const out = join(tempDir('spam'), 'ids.txt');
+    ok(await cli(['spam-scan', '--created-after', '1d', '--out', out]));
+    const ids = readFileSync(out, 'utf-8').split(/\s+/).filter(Boolean).map(Number);
+    assert.ok(ids.includes(SPECIAL_REVIEWS.duplicateA));
+    assert.ok(ids.includes(SPECIAL_REVIEWS.domainBurst[0]));
+  });
+
+  it('scan-injection reports the injection attempt and can queue it', async () => {
+    const dataDir = tempDir('cli-data');
+    const out = ok(await cli(['scan-injection', '--created-after', '1d', '--queue'], { dataDir }));
+    assert.ok(out.includes(String(SPECIAL_REVIEWS.injection)));
+    assert.match(out, /ignore-instructions/);
+    assert.match(ok(await cli(['pending-actions', '--status', 'pending'], { dataDir })), /"count":\s*1\b/);
+  });
+});
+
+describe('export, import and alerts', () => {
+  it('export writes every review', async () => {
+    const path = join(tempDir('export'), 'reviews.jsonl');
+    ok(await cli(['export', '--format', 'jsonl', '--out', path]));
+    const lines = ndjson(readFileSync(path, 'utf-8'));
+    assert.equal(lines.length, server.state.reviews.length);
+    assert.ok(lines.every(r => r.reviewer?.email === undefined));
+  });
+
+  it('import-reviews creates reviews from a CSV', async () => {
+    const dir = tempDir('import');
+    const path = join(dir, 'yotpo.csv');
+    writeFileSync(path, 'product_id,review_score,review_title,review_content,display_name,email\n9001,5,Great,Lovely shoe,Kim,kim@example.com\n');
+    ok(await cli(['import-reviews', '--file', path, '--platform', 'yotpo']));
+    assert.ok(server.state.reviews.some(r => r.body === 'Lovely shoe'));
+  });
+
+  it('alerts-check reports hits once', async () => {
+    const dataDir = tempDir('cli-data');
+    const rules = join(tempDir('alerts'), 'rules.json');
+    writeFileSync(rules, JSON.stringify({ rules: [{ id: 'low', type: 'rating', maxRating: 2 }] }));
+
+    const first = ok(await cli(['alerts-check', '--rules', rules, '--since', '3h'], { dataDir }));
+    assert.ok(first.includes(String(SPECIAL_REVIEWS.shippingComplaint)));
+    const second = ok(await cli(['alerts', 'check', '--rules', rules, '--since', '3h'], { dataDir }));
+    assert.ok(!second.includes(String(SPECIAL_REVIEWS.shippingComplaint)));
+  });
+});
+
+describe('mirror and utility commands', () => {
+  it('sync fills the mirror and --source local reads from it', async () => {
+    const dataDir = tempDir('cli-data');
+    ok(await cli(['sync'], { dataDir }));
+    assert.ok(existsSync(join(dataDir, 'judgeme-mirror.db')));
+    assert.match(ok(await cli(['mirror-stats'], { dataDir })), new RegExp(`"reviews":\\s*${server.state.reviews.length}\\b`));
+
+    const before = server.requests.length;
+    const out = ok(await cli(['search-reviews', '--search', 'courier', '--source', 'local'], { dataDir }));
+    assert.ok(out.includes(String(SPECIAL_REVIEWS.shippingComplaint)));
+    assert.equal(server.requests.length, before);
+  });
+
+  it('config validate checks both tokens and exits with the auth code when one fails', async () => {
+    assert.match(ok(await cli(['config', 'validate'])), /"ok":\s*true/);
+
+    const bad = await cli(['config-validate'], { overrides: { publicApiToken: 'wrong-public-token' } });
+    assert.equal(bad.code, 10);
+    assert.match(bad.stdout, /"rejected"/);
+    assert.ok(!bad.stdout.includes('wrong-public-token'));
+  });
+
+  it('list-tools lists the commands', async () => {
+    assert.match(ok(await cli(['list-tools'])), /reviewer-profile/);
+  });
+
+  it('surfaces server errors with the server exit code', async () => {
+    server.failNext({ status: 500 }, { times: 3 });
+    const run = await cli(['shop-info']);
+    assert.equal(run.code, 15);
+    assert.equal(run.json.error.code, 'SERVER');
+  });
+});
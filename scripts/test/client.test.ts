@@ -0,0 +1,1083 @@
+import { createTestClient, tempDir, testConfig } from './helpers.js';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import { JudgemeClient } from '../judgeme-client.js';
+import {
+  JudgemeAuthError, JudgemeDuplicateError, JudgemeNotFoundError, JudgemeRateLimitError, JudgemeServerError,
+  JudgemeLocalIoError, JudgemeTimeoutError, JudgemeValidationError,
+} from '../errors.js';
+import { PRIVATE_TOKEN, PUBLIC_TOKEN, SHOP_DOMAIN, SPECIAL_REVIEWS } from './fixtures.js';
+import { startMockServer, type MockServer } from './mock-server.js';
+import { replayDeliveries, type WebhookReceiver } from '../webhooks.js';
+import { IdempotencyStore } from '../idempotency.js';
+import { TemplateStore } from '../reply-templates.js';
+
+let server: MockServer;
+let client: JudgemeClient;
+
+before(async () => {
+  server = await startMockServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  client = createTestClient(server);
+});
+
+const requestsTo = (method: string, path: string) =>
+  server.requests.filter(r => r.method === method && r.path === path);
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+describe('configuration', () => {
+  it('reads config from an explicit path and trims a trailing slash from baseUrl', async () => {
+    const path = join(tempDir('config'), 'config.json');
+    writeFileSync(path, JSON.stringify({
+      judgeme: { shopDomain: SHOP_DOMAIN, publicApiToken: PUBLIC_TOKEN, privateApiToken: PRIVATE_TOKEN, baseUrl: `${server.url}/` },
+    }));
+    const fromFile = new JudgemeClient({ configPath: path });
+    fromFile.disableCache();
+
+    const info = await fromFile.getShopInfo() as { shop: { domain: string } };
+    assert.equal(info.shop.domain, SHOP_DOMAIN);
+    assert.equal(server.requests[0].path, '/shops/info');
+  });
+
+  it('reads config from JUDGEME_CONFIG when no path is given', async () => {
+    const path = join(tempDir('config'), 'config.json');
+    writeFileSync(path, JSON.stringify({
+      judgeme: { shopDomain: SHOP_DOMAIN, publicApiToken: PUBLIC_TOKEN, privateApiToken: PRIVATE_TOKEN, baseUrl: server.url },
+    }));
+    process.env.JUDGEME_CONFIG = path;
+    try {
+      const fromEnv = new JudgemeClient();
+      fromEnv.disableCache();
+      assert.equal((await fromEnv.getReview(SPECIAL_REVIEWS.replied)).review.id, SPECIAL_REVIEWS.replied);
+    } finally {
+      delete process.env.JUDGEME_CONFIG;
+    }
+  });
+
+  it('sends the shop domain and private token on every request', async () => {
+    await client.getReview(SPECIAL_REVIEWS.replied);
+    assert.equal(server.requests[0].query.shop_domain, SHOP_DOMAIN);
+    assert.equal(server.requests[0].query.api_token, PRIVATE_TOKEN);
+  });
+
+  it('lists every CLI command as a tool', () => {
+    const tools = client.listTools();
+    for (const name of ['list-reviews', 'curate-review', 'reviewer-profile', 'sync', 'import-reviews']) {
+      assert.ok(tools.includes(name), name);
+    }
+  });
+});
+
+// ============================================
+// STORE PROFILES
+// ============================================
+
+describe('store profiles', () => {
+  let second: MockServer;
+
+  before(async () => {
+    second = await startMockServer();
+  });
+
+  after(async () => {
+    await second.close();
+  });
+
+  beforeEach(() => {
+    second.reset();
+    // Make the second store distinguishable by its review count
+    second.state.reviews.splice(0, 5);
+  });
+
+  const profiles = (extra: Record<string, unknown> = {}) => testConfig(server.url, {
+    stores: { us: {}, eu: { baseUrl: second.url } },
+    ...extra,
+  });
+
+  it('requires --store or defaultStore when several stores are configured', () => {
+    assert.throws(() => new JudgemeClient({ config: profiles() }), /pass --store/);
+    assert.throws(() => new JudgemeClient({ config: profiles(), store: 'asia' }), /Unknown store "asia".*us, eu/);
+    assert.equal(new JudgemeClient({ config: profiles({ defaultStore: 'eu' }) }).getStoreName(), 'eu');
+    assert.equal(client.getStoreName(), 'default');
+  });
+
+  it('sends requests to the selected store and keeps its local state apart', async () => {
+    const eu = new JudgemeClient({ config: profiles(), store: 'eu' });
+    eu.disableCache();
+    await eu.curateReview(SPECIAL_REVIEWS.pending, 'ok');
+
+    assert.ok(second.requests.length > 0);
+    assert.equal(server.requests.length, 0);
+    assert.equal(eu.queryAuditLog().length, 1);
+    assert.equal(eu.forStore('us').queryAuditLog().length, 0);
+  });
+
+  it('counts and reports across every store with totals', async () => {
+    const all = new JudgemeClient({ config: profiles(), store: 'all' });
+    all.disableCache();
+    assert.ok(all.isAllStores());
+
+    const counts = await all.countReviewsAcrossStores();
+    assert.deepEqual(counts.stores.map(s => [s.store, s.count]), [
+      ['us', server.state.reviews.length],
+      ['eu', second.state.reviews.length],
+    ]);
+    assert.equal(counts.total, server.state.reviews.length + second.state.reviews.length);
+    assert.ok(counts.exact);
+
+    const analytics = await all.getAnalyticsAcrossStores({ createdAfter: '7d' });
+    assert.deepEqual(analytics.stores.map(s => s.store), ['us', 'eu']);
+    assert.equal(analytics.total.overall.count, analytics.stores.reduce((sum, s) => sum + s.report.overall.count, 0));
+  });
+});
+
+// ============================================
+// CREDENTIALS
+// ============================================
+
+describe('credentials', () => {
+  const withoutTokens = () => testConfig(server.url, { publicApiToken: undefined, privateApiToken: undefined });
+
+  /** Secrets file in a temp dir, owner-only unless `mode` says otherwise. */
+  const writeSecrets = (secrets: unknown, mode = 0o600) => {
+    const path = join(tempDir('secrets'), 'secrets.json');
+    writeFileSync(path, JSON.stringify(secrets), { mode });
+    chmodSync(path, mode);
+    return path;
+  };
+
+  const withEnv = async (vars: Record<string, string>, fn: () => Promise<void> | void) => {
+    const saved = Object.fromEntries(Object.keys(vars).map(name => [name, process.env[name]]));
+    Object.assign(process.env, vars);
+    try {
+      await fn();
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  };
+
+  it('prefers environment variables over the secrets file and config.json', async () => {
+    const secretsFile = writeSecrets({ publicApiToken: 'from-file', privateApiToken: 'from-file' });
+    await withEnv({ JUDGEME_SECRETS_FILE: secretsFile, JUDGEME_PRIVATE_API_TOKEN: PRIVATE_TOKEN }, async () => {
+      const fromEnv = new JudgemeClient({ config: withoutTokens() });
+      fromEnv.disableCache();
+      await fromEnv.getShopInfo();
+      assert.equal(server.requests[0].query.api_token, PRIVATE_TOKEN);
+
+      const check = await fromEnv.validateCredentials();
+      assert.equal(check.tokens.private.source, 'env');
+      assert.equal(check.tokens.public.source, 'secrets-file');
+      assert.equal(check.tokens.public.status, 'rejected');
+      assert.equal(check.secretsFile, secretsFile);
+      assert.equal(check.ok, false);
+    });
+  });
+
+  it('reads per-store tokens from the secrets file and store-prefixed env vars', async () => {
+    const secretsFile = writeSecrets({ stores: { eu: { privateApiToken: PRIVATE_TOKEN } } });
+    const config = testConfig(server.url, {
+      publicApiToken: undefined,
+      privateApiToken: undefined,
+      stores: { us: {}, eu: {} },
+      defaultStore: 'eu',
+    });
+    await withEnv({ JUDGEME_SECRETS_FILE: secretsFile, JUDGEME_US_PUBLIC_API_TOKEN: PUBLIC_TOKEN }, async () => {
+      const eu = new JudgemeClient({ config });
+      eu.disableCache();
+      const check = await eu.validateCredentials();
+      assert.equal(check.tokens.private.status, 'ok');
+      assert.equal(check.tokens.public.status, 'missing');
+      assert.ok(check.ok);
+
+      const us = await eu.forStore('us').validateCredentials();
+      assert.equal(us.tokens.public.status, 'ok');
+      assert.equal(us.tokens.private.status, 'missing');
+      assert.equal(us.ok, false);
+    });
+  });
+
+  it('refuses a secrets file that other users can read', async () => {
+    const secretsFile = writeSecrets({ privateApiToken: PRIVATE_TOKEN }, 0o644);
+    await withEnv({ JUDGEME_SECRETS_FILE: secretsFile }, () => {
+      assert.throws(() => new JudgemeClient({ config: withoutTokens() }), /Refusing to read .*chmod 600/);
+    });
+  });
+
+  it('fails fast without a request when the private token is missing', async () => {
+    const noPrivate = new JudgemeClient({ config: testConfig(server.url, { privateApiToken: undefined }) });
+    await assert.rejects(noPrivate.curateReview(SPECIAL_REVIEWS.pending, 'ok'), (error: unknown) => {
+      assert.ok(error instanceof JudgemeAuthError);
+      assert.match(error.message, /needs the private API token/);
+      assert.match(error.suggestion ?? '', /JUDGEME_PRIVATE_API_TOKEN/);
+      return true;
+    });
+    assert.equal(server.requests.length, 0);
+  });
+
+  it('validates both tokens and warns about plaintext tokens in config.json', async () => {
+    const check = await client.validateCredentials();
+    assert.deepEqual([check.tokens.public.status, check.tokens.private.status], ['ok', 'ok']);
+    assert.equal(check.tokens.private.source, 'config');
+    assert.ok(check.ok);
+    assert.ok(check.warnings.some(w => /plaintext config\.json/.test(w)));
+  });
+
+  it('redacts tokens from error messages it did not create', () => {
+    assert.equal(client.redact(`GET ${server.url}/reviews?api_token=${PRIVATE_TOKEN}`), `GET ${server.url}/reviews?api_token=[REDACTED]`);
+  });
+});
+
+// ============================================
+// REVIEWS AND PAGINATION
+// ============================================
+
+describe('reviews', () => {
+  it('lists a page of reviews, newest first', async () => {
+    const result = await client.listReviews({ page: 1, perPage: 5 });
+    assert.equal(result.reviews.length, 5);
+    assert.equal(result.reviews[0].id, SPECIAL_REVIEWS.replied);
+    assert.equal(requestsTo('GET', '/reviews')[0].query.per_page, '5');
+  });
+
+  it('converts a Shopify product ID to the Judge.me ID', async () => {
+    const result = await client.listReviews({ shopifyProductId: 9002, perPage: 100 });
+    assert.ok(result.reviews.length > 0);
+    assert.ok(result.reviews.every(r => r.product_external_id === 9002));
+    assert.equal(requestsTo('GET', '/reviews')[0].query.product_id, '502');
+  });
+
+  it('rejects an unknown Shopify product ID', async () => {
+    await assert.rejects(client.listReviews({ shopifyProductId: 123 }), JudgemeNotFoundError);
+  });
+
+  it('applies client-side filters and reports where each ran', async () => {
+    const result = await client.listReviews({ hasReply: false, maxRating: 2, perPage: 100 });
+    assert.ok(result.reviews.length > 0);
+    assert.ok(result.reviews.every(r => !r.reply?.body && r.rating <= 2));
+    assert.ok(result.filters!.client.length > 0);
+  });
+
+  it('gets one review and maps a 404 to a not-found error', async () => {
+    assert.equal((await client.getReview(SPECIAL_REVIEWS.injection)).review.id, SPECIAL_REVIEWS.injection);
+    await assert.rejects(client.getReview(999_999), (error: unknown) => {
+      assert.ok(error instanceof JudgemeNotFoundError);
+      assert.equal(error.exitCode, 11);
+      return true;
+    });
+  });
+
+  it('counts with the count endpoint, or by scanning for client-side filters', async () => {
+    const total = await client.countReviews();
+    assert.equal(total.count, server.state.reviews.length);
+    assert.equal(total.exact, true);
+
+    const fiveStar = await client.countReviews({ rating: 5 });
+    assert.equal(fiveStar.count, server.state.reviews.filter(r => r.rating === 5).length);
+
+    const unreplied = await client.countReviews({ hasReply: false });
+    assert.equal(unreplied.count, server.state.reviews.filter(r => !r.reply?.body).length);
+    assert.equal(unreplied.exact, true);
+    assert.ok(unreplied.pagesScanned! >= 2);
+  });
+
+  it('iterates across pages and honours maxItems', async () => {
+    const seen: number[] = [];
+    for await (const review of client.iterateReviews({ maxItems: 120 })) seen.push(review.id);
+    assert.equal(seen.length, 120);
+    assert.equal(new Set(seen).size, 120);
+    assert.equal(requestsTo('GET', '/reviews').length, 2);
+  });
+
+  it('stops paging once reviews are older than createdAfter', async () => {
+    const seen = [];
+    for await (const review of client.iterateReviews({ createdAfter: '1d' })) seen.push(review);
+    assert.ok(seen.length > 0);
+    assert.ok(seen.every(r => Date.parse(r.created_at) >= Date.now() - 24 * 60 * 60 * 1000));
+    assert.equal(requestsTo('GET', '/reviews').length, 1);
+  });
+
+  it('searches reviews with boolean queries', async () => {
+    const result = await client.searchReviews({ search: 'shipping AND damaged' });
+    assert.deepEqual(result.reviews.map(r => r.id), [SPECIAL_REVIEWS.shippingComplaint]);
+    assert.equal(result.totalMatches, 1);
+  });
+
+  it('rejects a malformed search before calling the API', async () => {
+    await assert.rejects(client.searchReviews({ search: '(shipping' }));
+    assert.equal(server.requests.length, 0);
+  });
+});
+
+// ============================================
+// ERRORS, RETRIES AND TIMEOUTS
+// ============================================
+
+describe('errors and retries', () => {
+  it('retries GETs on 500 and succeeds', async () => {
+    server.failNext({ status: 500 }, { times: 2, match: 'GET /shops/info' });
+    const info = await client.getShopInfo() as { shop: { name: string } };
+    assert.equal(info.shop.name, 'Test Store');
+    assert.equal(requestsTo('GET', '/shops/info').length, 3);
+  });
+
+  it('gives up after maxRetries with a server error', async () => {
+    server.failNext({ status: 503 }, { times: 3 });
+    await assert.rejects(client.getShopInfo(), JudgemeServerError);
+    assert.equal(server.requests.length, 3);
+  });
+
+  it('honours Retry-After on 429 and reports rate limiting once retries run out', async () => {
+    server.failNext({ status: 429, headers: { 'Retry-After': '0' } }, { times: 1 });
+    await client.getReview(SPECIAL_REVIEWS.replied);
+    assert.equal(server.requests.length, 2);
+
+    server.failNext({ status: 429, headers: { 'Retry-After': '0' } }, { times: 3 });
+    await assert.rejects(client.getReview(SPECIAL_REVIEWS.replied), JudgemeRateLimitError);
+  });
+
+  it('gives up instead of retrying early when Retry-After exceeds maxDelayMs', async () => {
+    server.failNext({ status: 429, headers: { 'Retry-After': '120' } }, { times: 1 });
+    await assert.rejects(client.getReview(SPECIAL_REVIEWS.replied), (error: unknown) => {
+      assert.ok(error instanceof JudgemeRateLimitError);
+      assert.equal(error.retryAfterMs, 120_000);
+      return true;
+    });
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('times out a hanging GET with a retryable timeout error', async () => {
+    server.failNext({ hang: true }, { times: 3 });
+    await assert.rejects(client.getShopInfo(), (error: unknown) => {
+      assert.ok(error instanceof JudgemeTimeoutError);
+      assert.equal(error.retryable, true);
+      return true;
+    });
+  });
+
+  it('never retries a POST that failed', async () => {
+    server.failNext({ status: 500 }, { match: 'POST /replies' });
+    await assert.rejects(client.replyToReview(SPECIAL_REVIEWS.shippingComplaint, 'Sorry about that'), JudgemeServerError);
+    assert.equal(requestsTo('POST', '/replies').length, 1);
+  });
+
+  it('refuses to resend a POST after a 5xx but not after a 4xx', async () => {
+    const reply = 'Sorry about that';
+    server.failNext({ status: 502 }, { match: 'POST /replies' });
+    await assert.rejects(client.replyToReview(SPECIAL_REVIEWS.shippingComplaint, reply), JudgemeServerError);
+    await assert.rejects(client.replyToReview(SPECIAL_REVIEWS.shippingComplaint, reply), JudgemeDuplicateError);
+    assert.equal(requestsTo('POST', '/replies').length, 1);
+
+    server.failNext({ status: 422 }, { match: 'POST /replies' });
+    await assert.rejects(client.replyToReview(SPECIAL_REVIEWS.domainBurst[0], reply), JudgemeValidationError);
+    await client.replyToReview(SPECIAL_REVIEWS.domainBurst[0], reply);
+    assert.equal(requestsTo('POST', '/replies').length, 3);
+  });
+
+  it('lets delivered POST records lapse quickly but keeps unknown outcomes', () => {
+    const path = join(tempDir('idempotency'), 'idempotency.json');
+    const at = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    writeFileSync(path, JSON.stringify({
+      sent: { key: 'sent', endpoint: '/private_replies', outcome: 'delivered', at },
+      lost: { key: 'lost', endpoint: '/private_replies', outcome: 'unknown', at },
+    }));
+    const store = new IdempotencyStore(path);
+    assert.equal(store.get('sent'), null);
+    assert.equal(store.get('lost')?.outcome, 'unknown');
+  });
+
+  it('maps a bad token to an auth error without leaking it', async () => {
+    const badClient = createTestClient(server, { privateApiToken: 'not-the-right-token' });
+    await assert.rejects(badClient.getShopInfo(), (error: unknown) => {
+      assert.ok(error instanceof JudgemeAuthError);
+      assert.equal(error.exitCode, 10);
+      return true;
+    });
+  });
+
+  it('scrubs tokens echoed back in error bodies', async () => {
+    server.failNext({ status: 422, body: `bad request for api_token=${PRIVATE_TOKEN}` });
+    await assert.rejects(client.getReview(SPECIAL_REVIEWS.replied), (error: Error) => {
+      assert.ok(!error.message.includes(PRIVATE_TOKEN));
+      assert.match(error.message, /\[REDACTED\]/);
+      return true;
+    });
+  });
+});
+
+// ============================================
+// CURATION, REPLIES AND AUDIT LOG
+// ============================================
+
+describe('curation and replies', () => {
+  it('curates a review and logs it', async () => {
+    const { review } = await client.curateReview(SPECIAL_REVIEWS.pending, 'ok');
+    assert.equal(review.curated, 'ok');
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.pending)!.curated, 'ok');
+
+    const [entry] = client.queryAuditLog({ reviewId: SPECIAL_REVIEWS.pending });
+    assert.equal(entry.action, 'curate');
+    assert.equal(entry.status, 'success');
+  });
+
+  it('posts a public reply and refuses a second one', async () => {
+    await client.replyToReview(SPECIAL_REVIEWS.shippingComplaint, 'Sorry about the delivery.');
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.shippingComplaint)!.reply!.body, 'Sorry about the delivery.');
+
+    await assert.rejects(
+      client.replyToReview(SPECIAL_REVIEWS.shippingComplaint, 'Sorry again.'),
+      JudgemeDuplicateError
+    );
+    assert.equal(requestsTo('POST', '/replies').length, 1);
+  });
+
+  it('refuses to resend a reply whose POST timed out', async () => {
+    server.failNext({ hang: true }, { match: 'POST /replies' });
+    await assert.rejects(client.replyToReview(SPECIAL_REVIEWS.injection, 'Thanks!'), JudgemeTimeoutError);
+    await assert.rejects(client.replyToReview(SPECIAL_REVIEWS.injection, 'Thanks!'), JudgemeDuplicateError);
+
+    const entries = client.queryAuditLog({ reviewId: SPECIAL_REVIEWS.injection, action: 'reply' });
+    assert.equal(entries[0].status, 'error');
+  });
+
+  it('sends a private reply and enforces the per-reviewer cooldown', async () => {
+    await client.sendPrivateReply(SPECIAL_REVIEWS.shippingComplaint, 'Your order', 'We are sending a replacement.');
+    assert.equal(server.state.privateReplies.length, 1);
+
+    // Another review by the same reviewer (Ben)
+    const other = server.state.reviews.find(r => r.reviewer.id === 2 && r.id !== SPECIAL_REVIEWS.shippingComplaint)!;
+    await assert.rejects(client.sendPrivateReply(other.id, 'Hello', 'Following up.'), JudgemeDuplicateError);
+
+    await client.sendPrivateReply(other.id, 'Hello', 'Following up.', { force: true });
+    assert.equal(server.state.privateReplies.length, 2);
+  });
+
+  it('renders reply templates from review values', async () => {
+    assert.ok(client.listReplyTemplates().length > 0);
+    const rendered = await client.renderReplyTemplate(SPECIAL_REVIEWS.replied, { kind: 'public' });
+    assert.ok(rendered.body.length > 0);
+    assert.doesNotMatch(rendered.body, /\{\{/);
+  });
+
+  it('treats inherited object keys as unknown placeholders', async () => {
+    const { review } = await client.getReview(SPECIAL_REVIEWS.replied);
+    const store = new TemplateStore(tempDir('templates'));
+    for (const key of ['constructor', '__proto__']) {
+      const template = { name: 'probe', kind: 'public' as const, minRating: 1, maxRating: 5, body: `Hi {{${key}}}` };
+      assert.throws(() => store.render(template, review), /unknown placeholder/);
+    }
+  });
+});
+
+// ============================================
+// APPROVAL QUEUE
+// ============================================
+
+describe('approval queue', () => {
+  it('stages, approves and executes an action', async () => {
+    const staged = client.stageAction({ kind: 'curate', reviewId: SPECIAL_REVIEWS.injection, status: 'spam' }, 'injection');
+    assert.equal(client.listPendingActions('pending').length, 1);
+    assert.equal(server.requests.length, 0);
+
+    const done = await client.approveAction(staged.id, 'tester');
+    assert.equal(done.status, 'executed');
+    assert.equal(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.injection)!.curated, 'spam');
+  });
+
+  it('records failed executions instead of throwing', async () => {
+    const staged = client.stageAction({ kind: 'reply', reviewId: 999_999, body: 'Hi' });
+    const result = await client.approveAction(staged.id, 'tester');
+    assert.equal(result.status, 'failed');
+    assert.equal(result.history.find(e => e.event === 'failed')!.errorCode, 'NOT_FOUND');
+  });
+
+  it('rejects actions and approves the rest in order', async () => {
+    const a = client.stageAction({ kind: 'curate', reviewId: SPECIAL_REVIEWS.duplicateA, status: 'spam' });
+    const b = client.stageAction({ kind: 'curate', reviewId: SPECIAL_REVIEWS.duplicateB, status: 'spam' });
+    assert.equal(client.rejectAction(a.id, 'tester', 'not spam').status, 'rejected');
+
+    const results = await client.approveAllActions('tester');
+    assert.deepEqual(results.map(r => r.id), [b.id]);
+    assert.throws(() => client.rejectAction(b.id), /already executed/);
+  });
+});
+
+// ============================================
+// BULK CURATION
+// ============================================
+
+describe('bulk curation', () => {
+  it('plans, applies and undoes a batch', async () => {
+    const ids = [SPECIAL_REVIEWS.duplicateA, SPECIAL_REVIEWS.duplicateB];
+    const { plan, reviews } = await client.planBulkCuration('spam', { ids });
+    assert.deepEqual(reviews.map(r => r.id).sort(), [...ids].sort());
+    assert.equal(requestsTo('PUT', `/reviews/${ids[0]}`).length, 0);
+
+    const applied = await client.applyBulkCuration(plan.batchId);
+    assert.equal(applied.changed.length, 2);
+    assert.ok(ids.every(id => server.state.reviews.find(r => r.id === id)!.curated === 'spam'));
+
+    const again = await client.applyBulkCuration(plan.batchId);
+    assert.deepEqual(again.skipped.sort(), [...ids].sort());
+
+    const undone = await client.undoBulkCuration(plan.batchId);
+    assert.equal(undone.changed.length, 2);
+    assert.ok(ids.every(id => server.state.reviews.find(r => r.id === id)!.curated === 'ok'));
+  });
+
+  it('selects by keyword and reviewer email', async () => {
+    const { reviews } = await client.planBulkCuration('spam', { keyword: 'power bank', reviewerEmail: 'dana@example.com' });
+    assert.deepEqual(reviews.map(r => r.id), [SPECIAL_REVIEWS.duplicateA]);
+  });
+
+  it('counts the cap against matches and flags a truncated selection', async () => {
+    // Ben's reviews are all older filler, far behind the newest two reviews
+    const { plan, reviews } = await client.planBulkCuration('spam', { reviewerEmail: 'ben@example.org', maxItems: 2 });
+    assert.equal(reviews.length, 2);
+    assert.ok(reviews.every(r => r.reviewer.email === 'ben@example.org'));
+    assert.equal(plan.truncated, true);
+
+    const byIds = await client.planBulkCuration('spam', {
+      ids: [SPECIAL_REVIEWS.replied, SPECIAL_REVIEWS.duplicateA],
+      shopifyProductId: 9002,
+    });
+    assert.deepEqual(byIds.reviews.map(r => r.id), [SPECIAL_REVIEWS.duplicateA]);
+    assert.equal(byIds.plan.truncated, undefined);
+  });
+
+  it('refuses an empty selector and unknown batches', async () => {
+    await assert.rejects(client.planBulkCuration('spam', {}), JudgemeValidationError);
+    await assert.rejects(client.applyBulkCuration('bc-missing'), /Unknown bulk curation batch/);
+    await assert.rejects(client.undoBulkCuration('bc-missing'), /Unknown bulk curation batch/);
+  });
+});
+
+// ============================================
+// REVIEWERS, PRODUCTS, SHOP
+// ============================================
+
+describe('reviewers', () => {
+  it('looks reviewers up by ID and email', async () => {
+    assert.equal((await client.getReviewerById(1)).reviewer.email, 'ana@example.com');
+    assert.equal((await client.getReviewerByEmail('ben@example.org')).reviewer.id, 2);
+    await assert.rejects(client.getReviewerByEmail('nobody@example.com'), JudgemeNotFoundError);
+  });
+
+  it('builds a reviewer profile with history and private replies', async () => {
+    await client.sendPrivateReply(SPECIAL_REVIEWS.replied, 'Thanks', 'Enjoy the shoes!');
+    const profile = await client.getReviewerProfile({ email: 'ana@example.com' });
+
+    const expected = server.state.reviews.filter(r => r.reviewer.id === 1);
+    assert.equal(profile.reviewer.id, 1);
+    assert.equal(profile.stats.reviewCount, expected.length);
+    assert.ok(profile.reviews.every(r => r.reviewer.id === 1));
+    assert.equal(profile.complete, true);
+    assert.equal(profile.privateReplies.length, 1);
+    assert.equal(profile.stats.averageRating,
+      Math.round((expected.reduce((sum, r) => sum + r.rating, 0) / expected.length) * 100) / 100);
+  });
+});
+
+describe('products and shop', () => {
+  it('lists products and returns shop info', async () => {
+    assert.equal((await client.listProducts({ perPage: 2 })).products.length, 2);
+    const info = await client.getShopInfo() as { shop: { reviews_count: number } };
+    assert.equal(info.shop.reviews_count, server.state.reviews.length);
+  });
+
+  it('finds products by Shopify ID, handle and title from the index', async () => {
+    assert.equal((await client.getProductByExternalId(9002))!.id, 502);
+    assert.equal((await client.findProduct({ handle: 'merino-wool-socks' }))!.externalId, 9003);
+    const indexRequests = requestsTo('GET', '/products').length;
+
+    const [best] = await client.searchProducts('power bank');
+    assert.equal(best.product.externalId, 9002);
+    // Built once, then answered locally
+    assert.equal(requestsTo('GET', '/products').length, indexRequests);
+  });
+
+  it('iterates every product', async () => {
+    const products = [];
+    for await (const product of client.iterateProducts()) products.push(product);
+    assert.equal(products.length, server.state.products.length);
+  });
+
+  it('refreshes the product index', async () => {
+    const result = await client.refreshProductIndex();
+    assert.equal(result.products, server.state.products.length);
+    assert.equal(result.complete, true);
+  });
+
+  it('keeps review stats and records a build cut short by the page cap', async () => {
+    assert.equal(typeof (await client.findProduct({ externalId: 9002 }))!.reviewsCount, 'number');
+
+    // More products than the 100-page scan cap covers
+    const fresh = createTestClient(server);
+    server.state.products.push(...Array.from({ length: 10_050 }, (_, i) => ({
+      id: 100_000 + i, external_id: 200_000 + i, title: `Filler ${i}`, handle: `filler-${i}`,
+    })));
+    assert.equal(await fresh.findProduct({ externalId: 1 }), null);
+    const walked = requestsTo('GET', '/products').length;
+    assert.equal(await fresh.findProduct({ externalId: 1 }), null);
+    assert.equal(requestsTo('GET', '/products').length, walked);
+  });
+});
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+describe('analysis', () => {
+  it('computes analytics for a date range', async () => {
+    const report = await client.getAnalytics({ createdAfter: '7d' });
+    const cutoff = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    assert.equal(report.overall.count, server.state.reviews.filter(r => Date.parse(r.created_at) >= cutoff).length);
+    assert.ok(report.products.length > 0);
+  });
+
+  it('tags sentiment and topics', async () => {
+    const tags = client.tagReview(server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.shippingComplaint)!);
+    assert.equal(tags.sentiment, 'negative');
+    assert.ok(tags.topics.includes('shipping'));
+
+    const analysis = await client.analyzeReviews({ maxItems: 20 });
+    assert.equal(analysis.reviews.length, 20);
+    const summary = await client.getTopicSummary({ maxItems: 50 });
+    assert.ok(summary.some(p => p.topics.some(t => t.topic === 'shipping')));
+  });
+
+  it('flags duplicate bodies and a domain burst as likely spam', async () => {
+    const { candidates } = await client.scanForSpam({ createdAfter: '1d' });
+    const flagged = candidates.map(c => c.review.id);
+    for (const id of [SPECIAL_REVIEWS.duplicateA, SPECIAL_REVIEWS.duplicateB, ...SPECIAL_REVIEWS.domainBurst]) {
+      assert.ok(flagged.includes(id), `review ${id}`);
+    }
+    assert.ok(!flagged.includes(SPECIAL_REVIEWS.replied));
+  });
+
+  it('finds prompt-injection attempts and can queue them for curation', async () => {
+    const result = await client.scanForInjection({ createdAfter: '1d', queue: true });
+    assert.deepEqual(result.reviews.map(r => r.review.id), [SPECIAL_REVIEWS.injection]);
+    assert.ok(result.reviews[0].findings.some(f => f.field === 'body'));
+    assert.equal(result.queued.length, 1);
+
+    // A second scan doesn't queue the same review twice
+    const again = await client.scanForInjection({ createdAfter: '1d', queue: true });
+    assert.equal(again.queued.length, 0);
+    assert.equal(client.listPendingActions('pending').length, 1);
+  });
+});
+
+// ============================================
+// EXPORT, IMPORT, ALERTS
+// ============================================
+
+describe('export and import', () => {
+  it('exports CSV without reviewer emails by default', async () => {
+    const path = join(tempDir('export'), 'reviews.csv');
+    const result = await client.exportReviews(path, { format: 'csv' });
+    assert.equal(result.written, server.state.reviews.length);
+
+    const [header, ...rows] = readFileSync(path, 'utf-8').trim().split('\r\n');
+    assert.ok(!header.includes('reviewer_email'));
+    assert.ok(!readFileSync(path, 'utf-8').includes('ana@example.com'));
+    assert.ok(rows.length >= server.state.reviews.length);
+  });
+
+  it('fails with a typed error, before fetching, when the output path is unwritable', async () => {
+    const path = join(tempDir('export'), 'missing-dir', 'reviews.csv');
+    await assert.rejects(client.exportReviews(path, { format: 'csv' }), JudgemeLocalIoError);
+    assert.equal(requestsTo('GET', '/reviews').length, 0);
+  });
+
+  it('exports a Google feed with only visible reviews', async () => {
+    const path = join(tempDir('export'), 'feed.xml');
+    const result = await client.exportReviews(path, { format: 'google-xml' });
+    assert.equal(result.skipped, server.state.reviews.filter(r => r.hidden || !r.published).length);
+    const feed = readFileSync(path, 'utf-8');
+    assert.match(feed, /<product_url>https:\/\/test-store\.myshopify\.com\/products\//);
+    assert.doesNotMatch(feed, /<skus>/);
+  });
+
+  it('imports valid rows, records bad ones and resumes without reposting', async () => {
+    const dir = tempDir('import');
+    const path = join(dir, 'reviews.csv');
+    writeFileSync(path, [
+      'product_id,rating,title,body,reviewer_name,reviewer_email',
+      '9001,5,Great,"Fits well, ""true"" to size",Fay,fay@example.com',
+      '9002,7,Bad rating,Out of range,Gus,gus@example.com',
+      '123,4,Unknown product,No such product,Hal,hal@example.com',
+      '9003,4,Warm,Nice socks,Ivy,ivy@example.com',
+    ].join('\n'));
+    const before = server.state.reviews.length;
+
+    const dryRun = await client.importReviews(path, { dryRun: true });
+    assert.equal(dryRun.imported, 0);
+    assert.equal(requestsTo('POST', '/reviews').length, 0);
+
+    const result = await client.importReviews(path);
+    assert.equal(result.imported, 2);
+    assert.equal(result.failed, 2);
+    assert.equal(server.state.reviews.length, before + 2);
+    assert.equal(readFileSync(result.errorsPath!, 'utf-8').trim().split('\n').length, 2);
+
+    const resumed = await client.importReviews(path);
+    assert.equal(resumed.resumedFrom, 4);
+    assert.equal(resumed.imported, 0);
+    assert.equal(server.state.reviews.length, before + 2);
+  });
+
+  it('keeps a real import\'s error file on dry runs and reports completion at the last row', async () => {
+    const path = join(tempDir('import'), 'reviews.csv');
+    writeFileSync(path, [
+      'product_id,rating,title,body,reviewer_name,reviewer_email',
+      '9002,7,Bad rating,Out of range,Gus,gus@example.com',
+      '9003,4,Warm,Nice socks,Ivy,ivy@example.com',
+    ].join('\n'));
+
+    const first = await client.importReviews(path, { limit: 1 });
+    assert.equal(first.complete, false);
+    const dryRun = await client.importReviews(path, { dryRun: true });
+    assert.notEqual(dryRun.errorsPath, first.errorsPath);
+    assert.equal(readFileSync(first.errorsPath!, 'utf-8').trim().split('\n').length, 1);
+
+    // --limit equal to the remaining rows still finishes the file
+    assert.equal((await client.importReviews(path, { limit: 1 })).complete, true);
+  });
+
+  it('queues imported rows for approval in staged mode', async () => {
+    const staged = createTestClient(server, { stagedMode: true });
+    const path = join(tempDir('import'), 'reviews.csv');
+    writeFileSync(path, ['product_id,rating,body,reviewer_name,reviewer_email', '9001,5,Lovely,Fay,fay@example.com'].join('\n'));
+
+    const result = await staged.importReviews(path);
+    assert.equal(result.staged, 1);
+    assert.equal(result.imported, 0);
+    assert.equal(requestsTo('POST', '/reviews').length, 0);
+
+    await staged.approveAllActions('tester');
+    assert.ok(server.state.reviews.some(r => r.body === 'Lovely'));
+  });
+
+  it('creates a single review and audits it', async () => {
+    await client.createReview({ platform: 'shopify', id: 9001, rating: 4, body: 'Solid shoe', name: 'Jo', email: 'jo@example.com' });
+    assert.ok(server.state.reviews.some(r => r.body === 'Solid shoe'));
+    const [entry] = client.queryAuditLog({ action: 'create' });
+    assert.equal(entry.status, 'success');
+    assert.equal(entry.productExternalId, 9001);
+  });
+});
+
+describe('alerts', () => {
+  it('reports new low ratings once and keeps dry runs side-effect free', async () => {
+    const rulesPath = join(tempDir('alerts'), 'alert-rules.json');
+    writeFileSync(rulesPath, JSON.stringify({ rules: [{ id: 'low', type: 'rating', maxRating: 2 }] }));
+
+    const preview = await client.checkAlerts({ rulesPath, since: '3h', dryRun: true });
+    assert.ok(preview.hits.some(h => h.type === 'rating' && h.reviewId === SPECIAL_REVIEWS.shippingComplaint));
+    assert.equal(preview.stateSaved, false);
+
+    const first = await client.checkAlerts({ rulesPath, since: '3h' });
+    assert.equal(first.hits.length, preview.hits.length);
+    assert.equal(first.stateSaved, true);
+
+    const second = await client.checkAlerts({ rulesPath, since: '3h' });
+    assert.equal(second.hits.length, 0);
+  });
+
+  it('pages past a backlog of new reviews until the lookback is covered', async () => {
+    const rulesPath = join(tempDir('alerts'), 'alert-rules.json');
+    writeFileSync(rulesPath, JSON.stringify({ rules: [{ id: 'low', type: 'rating', maxRating: 2 }] }));
+    // Over ten pages of newer five-star reviews ahead of the complaint
+    const template = server.state.reviews.find(r => r.id === SPECIAL_REVIEWS.replied)!;
+    const now = Date.now();
+    server.state.reviews.unshift(...Array.from({ length: 1100 }, (_, i) => ({
+      ...template, id: 50_000 + i, reply: undefined, created_at: new Date(now - i * 1000).toISOString(),
+    })));
+
+    const result = await client.checkAlerts({ rulesPath, since: '3h' });
+    assert.ok(result.hits.some(h => h.type === 'rating' && h.reviewId === SPECIAL_REVIEWS.shippingComplaint));
+  });
+
+  it('matches keyword rules against new review text', async () => {
+    const rulesPath = join(tempDir('alerts'), 'alert-rules.json');
+    writeFileSync(rulesPath, JSON.stringify({ rules: [{ id: 'shipping', type: 'keyword', keywords: ['courier'] }] }));
+
+    const { hits } = await client.checkAlerts({ rulesPath, since: '3h', dryRun: true });
+    assert.deepEqual(hits.map(h => h.type === 'keyword' && h.reviewId), [SPECIAL_REVIEWS.shippingComplaint]);
+  });
+
+  it('fires an average rule once while the product stays below the threshold', async () => {
+    const rulesPath = join(tempDir('alerts'), 'alert-rules.json');
+    // Power bank, last day: ratings 1, 5, 5 and a 4-star filler review
+    writeFileSync(rulesPath, JSON.stringify({ rules: [{ id: 'power-bank', type: 'average', productId: 9002, below: 4, days: 1 }] }));
+
+    const first = await client.checkAlerts({ rulesPath, since: '3h' });
+    assert.deepEqual(first.hits, [{
+      ruleId: 'power-bank', type: 'average', productExternalId: 9002, average: 3.75, below: 4, days: 1, reviewCount: 4,
+    }]);
+    const second = await client.checkAlerts({ rulesPath, since: '3h' });
+    assert.equal(second.hits.length, 0);
+  });
+
+  it('POSTs hits to the webhook, and not at all on a dry run', async () => {
+    const rulesPath = join(tempDir('alerts'), 'alert-rules.json');
+    writeFileSync(rulesPath, JSON.stringify({ rules: [{ id: 'low', type: 'rating', maxRating: 2 }] }));
+    const received: Array<{ method?: string; contentType?: string; body: any }> = [];
+    const hook = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ method: req.method, contentType: req.headers['content-type'], body: JSON.parse(body) });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => hook.listen(0, '127.0.0.1', resolve));
+    const webhookUrl = `http://127.0.0.1:${(hook.address() as AddressInfo).port}/alerts`;
+
+    try {
+      const preview = await client.checkAlerts({ rulesPath, since: '3h', webhookUrl, dryRun: true });
+      assert.ok(preview.hits.length > 0);
+      assert.equal(preview.webhook, undefined);
+      assert.equal(received.length, 0);
+
+      const result = await client.checkAlerts({ rulesPath, since: '3h', webhookUrl });
+      assert.deepEqual(result.webhook, { url: webhookUrl, ok: true, status: 200 });
+      assert.equal(received.length, 1);
+      assert.equal(received[0].method, 'POST');
+      assert.equal(received[0].contentType, 'application/json');
+      assert.equal(received[0].body.source, 'judgeme-review-manager');
+      assert.equal(received[0].body.checkedAt, result.checkedAt);
+      assert.deepEqual(received[0].body.hits, JSON.parse(JSON.stringify(result.hits)));
+    } finally {
+      await new Promise(resolve => hook.close(resolve));
+    }
+  });
+});
+
+// ============================================
+// MIRROR AND CACHE
+// ============================================
+
+describe('local mirror', () => {
+  it('syncs everything, then only changes', async () => {
+    const full = await client.syncMirror();
+    assert.equal(full.mode, 'full');
+    assert.equal(full.reviews, server.state.reviews.length);
+    assert.equal(full.products, server.state.products.length);
+    assert.equal(client.getMirror().getStats().reviews, server.state.reviews.length);
+
+    await client.curateReview(SPECIAL_REVIEWS.pending, 'ok');
+    const incremental = await client.syncMirror();
+    assert.equal(incremental.mode, 'incremental');
+    assert.equal(incremental.reviews, 1);
+  });
+
+  it('picks up edits to old reviews and prunes deleted ones on a full sync', async () => {
+    await client.syncMirror();
+    // Reviews are listed newest first, so the oldest sits on the last page
+    const oldest = server.state.reviews[server.state.reviews.length - 1];
+    await client.curateReview(oldest.id, 'spam');
+
+    const incremental = await client.syncMirror();
+    assert.equal(incremental.reviews, 1);
+    assert.ok(client.getMirror().listReviews({ curated: 'spam', perPage: 100 }).reviews.some(r => r.id === oldest.id));
+
+    server.state.reviews.splice(server.state.reviews.indexOf(oldest), 1);
+    assert.equal((await client.syncMirror()).removed.reviews, 0);
+    const full = await client.syncMirror({ full: true });
+    assert.equal(full.removed.reviews, 1);
+    assert.equal(client.getMirror().getStats().reviews, server.state.reviews.length);
+  });
+
+  it('answers reviewer profiles from the mirror', async () => {
+    await client.syncMirror();
+    const before = server.requests.length;
+    const profile = await client.getReviewerProfile({ id: 2 }, { source: 'local' });
+    assert.equal(profile.stats.reviewCount, server.state.reviews.filter(r => r.reviewer.id === 2).length);
+    // Only the reviewer lookup hits the API
+    assert.equal(server.requests.length, before + 1);
+  });
+});
+
+// ============================================
+// WEBHOOKS
+// ============================================
+
+describe('webhooks', () => {
+  const RECORDED = join(dirname(fileURLToPath(import.meta.url)), 'recorded-webhooks.jsonl');
+  let receiver: WebhookReceiver;
+
+  beforeEach(async () => {
+    receiver = await client.startWebhookServer({ port: 0 });
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  it('verifies, normalises and queues replayed deliveries once each', async () => {
+    const results = await client.replayWebhooks(RECORDED, { url: receiver.url, sign: true });
+    assert.deepEqual(results.map(r => r.status), [200, 200, 200, 200]);
+    assert.equal((results[3].response as { duplicate: boolean }).duplicate, true);
+
+    const events = client.readWebhookEvents();
+    assert.deepEqual(events.map(e => [e.topic, e.reviewId]), [
+      ['review/created', 3001],
+      ['review/updated', SPECIAL_REVIEWS.shippingComplaint],
+      ['review/created', 3002],
+    ]);
+    const updated = events[1].review;
+    assert.equal(updated.rating, 1);
+    assert.equal(updated.curated, 'spam');
+    assert.equal(updated.reply?.body, 'Sorry, we have sent a replacement.');
+    // Flat payload fields land in the nested Review shape
+    assert.deepEqual(events[2].review.reviewer, { id: 9, name: 'Fran Gil', email: 'fran@example.com' });
+    assert.equal(events[2].review.product_external_id, 9003);
+  });
+
+  it('rejects unsigned deliveries and unknown topics without queueing them', async () => {
+    const unsigned = await client.replayWebhooks(RECORDED, { url: receiver.url });
+    assert.ok(unsigned.every(r => r.status === 401));
+
+    const [unknown] = await replayDeliveries(receiver.url, [
+      { topic: 'shop/updated', headers: {}, body: JSON.stringify({ shop: { id: 77 } }) },
+    ], { secret: PRIVATE_TOKEN });
+    assert.equal(unknown.status, 422);
+    assert.equal(client.readWebhookEvents().length, 0);
+  });
+
+  it('tracks a cursor per consumer', async () => {
+    await client.replayWebhooks(RECORDED, { url: receiver.url, sign: true });
+    assert.equal(client.readWebhookEvents({ consumer: 'alerts', limit: 2, ack: true }).length, 2);
+    assert.deepEqual(client.readWebhookEvents({ consumer: 'alerts', ack: true }).map(e => e.reviewId), [3002]);
+    assert.equal(client.readWebhookEvents({ consumer: 'alerts' }).length, 0);
+    assert.equal(client.readWebhookEvents({ consumer: 'sync' }).length, 3);
+    assert.throws(() => client.readWebhookEvents({ ack: true }), JudgemeValidationError);
+  });
+
+  it('drops the cached copy of a review named in a webhook', async () => {
+    client.enableCache();
+    client.clearCache();
+    try {
+      await client.getReview(SPECIAL_REVIEWS.shippingComplaint);
+      await client.replayWebhooks(RECORDED, { url: receiver.url, sign: true });
+      await client.getReview(SPECIAL_REVIEWS.shippingComplaint);
+      assert.equal(requestsTo('GET', `/reviews/${SPECIAL_REVIEWS.shippingComplaint}`).length, 2);
+    } finally {
+      client.clearCache();
+      client.disableCache();
+    }
+  });
+});
+
+describe('cache', () => {
+  it('serves repeat reads from cache and refetches after a mutation', async () => {
+    client.enableCache();
+    client.clearCache();
+    try {
+      await client.getReview(SPECIAL_REVIEWS.pending);
+      await client.getReview(SPECIAL_REVIEWS.pending);
+      assert.equal(requestsTo('GET', `/reviews/${SPECIAL_REVIEWS.pending}`).length, 1);
+
+      await client.curateReview(SPECIAL_REVIEWS.pending, 'spam');
+      const { review } = await client.getReview(SPECIAL_REVIEWS.pending);
+      assert.equal(review.curated, 'spam');
+      assert.equal(requestsTo('GET', `/reviews/${SPECIAL_REVIEWS.pending}`).length, 2);
+    } finally {
+      client.clearCache();
+      client.disableCache();
+    }
+  });
+
+  it('clears list pages showing a replied review, and only those', async () => {
+    client.enableCache();
+    client.clearCache();
+    try {
+      await client.listReviews({ page: 1 });
+      await client.listReviews({ page: 3 });
+      await client.getReviewerById(2);
+      await client.replyToReview(SPECIAL_REVIEWS.shippingComplaint, 'Sorry about the delay');
+
+      const { reviews } = await client.listReviews({ page: 1 });
+      assert.ok(reviews.find(r => r.id === SPECIAL_REVIEWS.shippingComplaint)?.reply);
+      await client.listReviews({ page: 3 });
+      await client.getReviewerById(2);
+
+      const pages = requestsTo('GET', '/reviews').map(r => r.query.page);
+      assert.deepEqual(pages, ['1', '3', '1']);
+      assert.equal(requestsTo('GET', '/reviewers/2').length, 1);
+    } finally {
+      client.clearCache();
+      client.disableCache();
+    }
+  });
+
+  it('refreshes counts and stats after curation but keeps reviewer lookups', async () => {
+    client.enableCache();
+    client.clearCache();
+    try {
+      await client.countReviews();
+      await client.getShopInfo();
+      await client.getReviewerByEmail('ana@example.com');
+      await client.curateReview(SPECIAL_REVIEWS.pending, 'ok');
+
+      await client.countReviews();
+      await client.getShopInfo();
+      await client.getReviewerByEmail('ana@example.com');
+      assert.equal(requestsTo('GET', '/reviews/count').length, 2);
+      assert.equal(requestsTo('GET', '/shops/info').length, 2);
+      assert.equal(requestsTo('GET', '/reviewers/find').length, 1);
+    } finally {
+      client.clearCache();
+      client.disableCache();
+    }
+  });
+
+  it('answers from disk while stale and refreshes in the background', async () => {
+    const swrClient = createTestClient(server, { cache: { staleWhileRevalidate: true } });
+    swrClient.enableCache();
+    try {
+      const first = await swrClient.getShopInfo() as { shop: { name: string } };
+      server.state.shop.name = 'Renamed Store';
+
+      // A new session (client) reads the entry from disk without a request
+      const again = new JudgemeClient({ config: testConfig(server.url, { cache: { staleWhileRevalidate: true } }) });
+      again.enableCache();
+      assert.deepEqual(await again.getShopInfo(), first);
+      assert.equal(requestsTo('GET', '/shops/info').length, 1);
+
+      // Age the entry past its TTL: the stale copy comes back at once, then gets refreshed
+      const dir = join(process.env.JUDGEME_DATA_DIR!, 'swr-cache');
+      for (const file of readdirSync(dir)) {
+        const entry = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+        writeFileSync(join(dir, file), JSON.stringify({ ...entry, storedAt: entry.storedAt - 2 * 60 * 60 * 1000 }));
+      }
+      assert.equal((await again.getShopInfo() as { shop: { name: string } }).shop.name, 'Test Store');
+      await again.waitForCacheRefresh();
+      assert.equal(requestsTo('GET', '/shops/info').length, 2);
+      assert.equal((await again.getShopInfo() as { shop: { name: string } }).shop.name, 'Renamed Store');
+      assert.equal(again.getCacheStats().staleWhileRevalidate?.stale, 1);
+    } finally {
+      swrClient.clearCache();
+      swrClient.disableCache();
+    }
+  });
+});
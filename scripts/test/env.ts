@@ -0,0 +1,28 @@
+/**
+ * Test environment isolation.
+ *
+ * Import this before anything that loads the client: it points HOME (and
+ * with it the plugin cache) and the data directory at a throwaway
+ * directory, so tests never read or touch a real cache, audit log,
+ * mirror or credentials.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export const TEST_ROOT = mkdtempSync(join(tmpdir(), 'judgeme-test-'));
+
+process.env.HOME = TEST_ROOT;
+process.env.XDG_CACHE_HOME = join(TEST_ROOT, 'cache');
+process.env.JUDGEME_DATA_DIR = join(TEST_ROOT, 'data');
+delete process.env.JUDGEME_CONFIG;
+delete process.env.JUDGEME_STORE;
+
+// Never pick up real credentials from the environment or a secrets file
+for (const name of Object.keys(process.env)) {
+  if (/^JUDGEME_.*(API_TOKEN|SHOP_DOMAIN|WEBHOOK_SECRET)$/.test(name)) delete process.env[name];
+}
+process.env.JUDGEME_SECRETS_FILE = join(TEST_ROOT, 'secrets.json');
+
+process.on('exit', () => rmSync(TEST_ROOT, { recursive: true, force: true }));
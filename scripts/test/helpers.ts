@@ -0,0 +1,142 @@
+/**
+ * Shared test helpers: clients and CLI runs wired to the mock server.
+ */
+
+import { TEST_ROOT } from './env.js';
+import { spawn } from 'child_process';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { JudgemeClient, type Config } from '../judgeme-client.js';
+import { PRIVATE_TOKEN, PUBLIC_TOKEN, SHOP_DOMAIN } from './fixtures.js';
+import type { MockServer } from './mock-server.js';
+
+const CLI_PATH = join(dirname(fileURLToPath(import.meta.url)), '..', 'cli.ts');
+
+// CLI runs start a fresh tsx process each time
+const CLI_TIMEOUT_MS = 30_000;
+
+type JudgemeSettings = Config['judgeme'];
+
+/** Config for the mock server: short timeout and near-instant retries. */
+export function testConfig(baseUrl: string, overrides: Partial<JudgemeSettings> = {}): Config {
+  return {
+    judgeme: {
+      shopDomain: SHOP_DOMAIN,
+      publicApiToken: PUBLIC_TOKEN,
+      privateApiToken: PRIVATE_TOKEN,
+      baseUrl,
+      requestTimeoutMs: 300,
+      retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 20 },
+      ...overrides,
+    },
+  };
+}
+
+/** A fresh temp directory under the test root. */
+export function tempDir(prefix: string): string {
+  return mkdtempSync(join(TEST_ROOT, `${prefix}-`));
+}
+
+/**
+ * New client against the mock server with its own data directory (audit
+ * log, journals, mirror) and caching off.
+ */
+export function createTestClient(server: MockServer, overrides: Partial<JudgemeSettings> = {}): JudgemeClient {
+  process.env.JUDGEME_DATA_DIR = tempDir('data');
+  const client = new JudgemeClient({ config: testConfig(server.url, overrides) });
+  client.disableCache();
+  return client;
+}
+
+export interface CliRun {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  json: any;          // Parsed stdout, or null when it isn't one JSON document
+}
+
+type CliOptions = { dataDir?: string; overrides?: Partial<JudgemeSettings> };
+
+function spawnCli(server: MockServer, args: string[], options: CliOptions) {
+  const dir = tempDir('cli');
+  const configPath = join(dir, 'config.json');
+  writeFileSync(configPath, JSON.stringify(testConfig(server.url, options.overrides)), 'utf-8');
+
+  const child = spawn(process.execPath, ['--import', 'tsx', CLI_PATH, ...args], {
+    env: {
+      ...process.env,
+      JUDGEME_CONFIG: configPath,
+      JUDGEME_DATA_DIR: options.dataDir ?? join(dir, 'data'),
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let stdout = '';
+  let stderr = '';
+  child.stdout.on('data', chunk => { stdout += chunk; });
+  child.stderr.on('data', chunk => { stderr += chunk; });
+
+  const done = new Promise<CliRun>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`CLI timed out: ${args.join(' ')}\n${stderr}`));
+    }, CLI_TIMEOUT_MS);
+
+    child.on('error', reject);
+    child.on('close', code => {
+      clearTimeout(timer);
+      let json: any = null;
+      try {
+        json = JSON.parse(stdout);
+      } catch {
+        // Streaming commands print NDJSON
+      }
+      resolve({ code, stdout, stderr, json });
+    });
+  });
+  return { child, done };
+}
+
+/**
+ * Runs the CLI in a child process against the mock server. Each call
+ * gets its own config file; pass `dataDir` to share local state across
+ * runs.
+ */
+export function runCli(server: MockServer, args: string[], options: CliOptions = {}): Promise<CliRun> {
+  return spawnCli(server, args, options).done;
+}
+
+/**
+ * Starts a long-running CLI command (e.g. `webhook serve`) and resolves
+ * once its stderr matches `ready`. `stop` sends SIGTERM and resolves with
+ * the finished run.
+ */
+export async function startCli(
+  server: MockServer,
+  args: string[],
+  ready: RegExp,
+  options: CliOptions = {}
+): Promise<{ match: RegExpMatchArray; stop: () => Promise<CliRun> }> {
+  const { child, done } = spawnCli(server, args, options);
+  const match = await new Promise<RegExpMatchArray>((resolve, reject) => {
+    let seen = '';
+    child.stderr.on('data', chunk => {
+      seen += chunk;
+      const found = seen.match(ready);
+      if (found) resolve(found);
+    });
+    done.then(run => reject(new Error(`CLI exited (${run.code}) before it was ready: ${args.join(' ')}\n${run.stderr}`)), reject);
+  });
+  return {
+    match,
+    stop: () => {
+      child.kill('SIGTERM');
+      return done;
+    },
+  };
+}
+
+/** Parses NDJSON output into one value per line. */
+export function ndjson(text: string): any[] {
+  return text.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line));
+}
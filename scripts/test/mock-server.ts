@@ -0,0 +1,309 @@
+/**
+ * Mock Judge.me API Server
+ *
+ * In-memory stand-in for the Judge.me Reviews API, serving the endpoints
+ * the client uses from fixture data. Writes (curation, replies, new
+ * reviews) change the server's state, every request is recorded, and
+ * upcoming requests can be made to fail with a status code or to hang
+ * past the client's timeout.
+ *
+ * Point a client at it with `judgeme.baseUrl` in the config. Run it on
+ * its own for manual testing:
+ *
+ *   npx tsx test/mock-server.ts [port]
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import type { Product, Review, Reviewer } from '../judgeme-client.js';
+import { PRIVATE_TOKEN, PUBLIC_TOKEN, SHOP_DOMAIN, createFixtures, type Fixtures } from './fixtures.js';
+
+const DEFAULT_PER_PAGE = 10;
+const MAX_PER_PAGE = 100;
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+export type MockFault =
+  | { status: number; body?: string; headers?: Record<string, string> }
+  | { hang: true };           // Never answer; the client's timeout fires
+
+export interface MockServer {
+  url: string;                // Base URL for `judgeme.baseUrl`
+  state: Fixtures;
+  requests: RecordedRequest[];
+  /**
+   * Fails the next `times` requests (default 1) whose "METHOD /path"
+   * starts with `match` (default: any request).
+   */
+  failNext(fault: MockFault, options?: { times?: number; match?: string }): void;
+  /** Restores fresh fixtures and clears recorded requests and faults. */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+interface PendingFault {
+  fault: MockFault;
+  remaining: number;
+  match?: string;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function paginate<T>(items: T[], query: Record<string, string>): { page: T[]; current_page: number; per_page: number } {
+  const current_page = Math.max(1, Number(query.page) || 1);
+  const per_page = Math.min(MAX_PER_PAGE, Math.max(1, Number(query.per_page) || DEFAULT_PER_PAGE));
+  const start = (current_page - 1) * per_page;
+  return { page: items.slice(start, start + per_page), current_page, per_page };
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new HttpError(400, 'Malformed JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function findReview(state: Fixtures, id: number): Review {
+  const review = state.reviews.find(r => r.id === id);
+  if (!review) throw new HttpError(404, `Review ${id} not found`);
+  return review;
+}
+
+function handle(
+  state: Fixtures,
+  method: string,
+  path: string,
+  query: Record<string, string>,
+  body: any
+): unknown {
+  const now = new Date().toISOString();
+  const reviewMatch = path.match(/^\/reviews\/(\d+)$/);
+  const reviewerMatch = path.match(/^\/reviewers\/(\d+)$/);
+
+  if (method === 'GET' && path === '/reviews') {
+    const { page, current_page, per_page } = paginate(filterReviews(state, query), query);
+    return { current_page, per_page, reviews: page };
+  }
+  if (method === 'GET' && path === '/reviews/count') {
+    return { count: filterReviews(state, query).length };
+  }
+  if (method === 'GET' && reviewMatch) {
+    return { review: findReview(state, Number(reviewMatch[1])) };
+  }
+  if (method === 'PUT' && reviewMatch) {
+    const review = findReview(state, Number(reviewMatch[1]));
+    if (body?.curated !== undefined) {
+      if (body.curated !== null && !['ok', 'spam', 'pending'].includes(body.curated)) {
+        throw new HttpError(422, `Invalid curated value "${body.curated}"`);
+      }
+      review.curated = body.curated ?? 'pending';
+      review.published = body.curated === 'ok';
+    }
+    review.updated_at = now;
+    return { review };
+  }
+  if (method === 'POST' && path === '/reviews') {
+    return { review: createReview(state, body, now) };
+  }
+  if (method === 'POST' && path === '/replies') {
+    const review = findReview(state, Number(body?.review_id));
+    if (!body?.body) throw new HttpError(422, 'Reply body is required');
+    review.reply = { body: body.body, created_at: now };
+    review.updated_at = now;
+    return { message: 'Reply created' };
+  }
+  if (method === 'POST' && path === '/private_replies') {
+    findReview(state, Number(body?.review_id));
+    if (!body?.subject || !body?.body) throw new HttpError(422, 'Subject and body are required');
+    state.privateReplies.push({ review_id: Number(body.review_id), subject: body.subject, body: body.body, at: now });
+    return { message: 'Private reply sent' };
+  }
+  if (method === 'GET' && path === '/reviewers/find') {
+    const email = (query.email ?? '').toLowerCase();
+    const reviewer = state.reviewers.find(r => r.email.toLowerCase() === email);
+    if (!reviewer) throw new HttpError(404, `Reviewer ${query.email} not found`);
+    return { reviewer };
+  }
+  if (method === 'GET' && reviewerMatch) {
+    const reviewer = state.reviewers.find(r => r.id === Number(reviewerMatch[1]));
+    if (!reviewer) throw new HttpError(404, `Reviewer ${reviewerMatch[1]} not found`);
+    return { reviewer };
+  }
+  if (method === 'GET' && path === '/shops/info') {
+    return { shop: state.shop };
+  }
+  if (method === 'GET' && path === '/products') {
+    const { page, current_page, per_page } = paginate(state.products, query);
+    return { current_page, per_page, products: page.map(product => withReviewStats(state, product)) };
+  }
+  throw new HttpError(404, `No route for ${method} ${path}`);
+}
+
+function filterReviews(state: Fixtures, query: Record<string, string>): Review[] {
+  let reviews = state.reviews;
+  if (query.product_id) {
+    // product_id is Judge.me's internal ID; reviews carry the Shopify ID
+    const product = state.products.find(p => p.id === Number(query.product_id));
+    reviews = reviews.filter(r => r.product_external_id === product?.external_id);
+  }
+  if (query.rating) reviews = reviews.filter(r => r.rating === Number(query.rating));
+  return reviews;
+}
+
+/** A product as /products lists it: with its published review count and average. */
+function withReviewStats(state: Fixtures, product: Product): Product {
+  const ratings = state.reviews
+    .filter(r => r.product_external_id === product.external_id && r.published && !r.hidden)
+    .map(r => r.rating);
+  const average = ratings.length ? Math.round((ratings.reduce((a, b) => a + b, 0) / ratings.length) * 100) / 100 : 0;
+  return { ...product, reviews_count: ratings.length, average_rating: average };
+}
+
+function createReview(state: Fixtures, body: any, now: string): Review {
+  const product = state.products.find(p => p.external_id === Number(body?.id));
+  if (!product) throw new HttpError(422, `Unknown product ${body?.id}`);
+  if (!body.email || !body.body || !(body.rating >= 1 && body.rating <= 5)) {
+    throw new HttpError(422, 'email, body and a rating from 1 to 5 are required');
+  }
+
+  let reviewer: Reviewer | undefined = state.reviewers.find(r => r.email === body.email);
+  if (!reviewer) {
+    reviewer = {
+      id: Math.max(0, ...state.reviewers.map(r => r.id)) + 1,
+      name: body.name ?? 'Anonymous',
+      email: body.email,
+      phone: '',
+      accepts_marketing: false,
+      unsubscribed_at: null,
+    };
+    state.reviewers.push(reviewer);
+  }
+
+  const review: Review = {
+    id: Math.max(0, ...state.reviews.map(r => r.id)) + 1,
+    title: body.title ?? '',
+    body: body.body,
+    rating: body.rating,
+    reviewer: { id: reviewer.id, email: reviewer.email, name: reviewer.name },
+    product_external_id: product.external_id,
+    product_title: product.title,
+    curated: 'pending',
+    published: false,
+    hidden: false,
+    verified: 'nothing',
+    created_at: body.created_at ?? now,
+    updated_at: now,
+    ...(body.picture_urls ? {
+      pictures: body.picture_urls.map((url: string) => ({ urls: { original: url, small: url } })),
+    } : {}),
+  };
+  state.reviews.push(review);
+  state.reviews.sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+  return review;
+}
+
+/** Starts the mock server on `port` (default: any free port) and resolves once it listens. */
+export async function startMockServer(options: { port?: number; fixtures?: Fixtures } = {}): Promise<MockServer> {
+  let state = options.fixtures ?? createFixtures();
+  const requests: RecordedRequest[] = [];
+  let faults: PendingFault[] = [];
+  const hanging = new Set<ServerResponse>();
+
+  const send = (res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(typeof payload === 'string' ? payload : JSON.stringify(payload));
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const query = Object.fromEntries(url.searchParams);
+    let body: unknown;
+    try {
+      body = await readBody(req);
+    } catch (error) {
+      send(res, 400, { error: (error as Error).message });
+      return;
+    }
+    requests.push({ method, path: url.pathname, query, body });
+
+    const label = `${method} ${url.pathname}`;
+    const fault = faults.find(f => f.remaining > 0 && (!f.match || label.startsWith(f.match)));
+    if (fault) {
+      fault.remaining--;
+      faults = faults.filter(f => f.remaining > 0);
+      if ('hang' in fault.fault) {
+        hanging.add(res);
+        return;
+      }
+      send(res, fault.fault.status, fault.fault.body ?? { error: `Mock failure ${fault.fault.status}` }, fault.fault.headers);
+      return;
+    }
+
+    // Same checks Judge.me makes: a known token for this shop, and the private one for writes
+    if (query.shop_domain !== SHOP_DOMAIN || ![PUBLIC_TOKEN, PRIVATE_TOKEN].includes(query.api_token)) {
+      send(res, 401, { error: 'Invalid api_token or shop_domain' });
+      return;
+    }
+    if (method !== 'GET' && query.api_token !== PRIVATE_TOKEN) {
+      send(res, 403, { error: 'This endpoint requires the private API token' });
+      return;
+    }
+
+    try {
+      send(res, 200, handle(state, method, url.pathname, query, body));
+    } catch (error) {
+      if (error instanceof HttpError) send(res, error.status, { error: error.message });
+      else send(res, 500, { error: (error as Error).message });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    get state() {
+      return state;
+    },
+    requests,
+    failNext(fault, { times = 1, match } = {}) {
+      faults.push({ fault, remaining: times, match });
+    },
+    reset() {
+      state = createFixtures();
+      requests.length = 0;
+      faults = [];
+    },
+    close() {
+      for (const res of hanging) res.destroy();
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+// Standalone: serve fixtures until interrupted
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const server = await startMockServer({ port: Number(process.argv[2]) || 4010 });
+  console.error(`Mock Judge.me API on ${server.url} (shop ${SHOP_DOMAIN}, tokens ${PUBLIC_TOKEN} / ${PRIVATE_TOKEN})`);
+}
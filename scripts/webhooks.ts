@@ -0,0 +1,393 @@
+/**
+ * Judge.me Webhooks
+ *
+ * Receives review/created and review/updated webhooks: checks the HMAC
+ * signature over the raw body, normalises the payload into the same
+ * `Review` shape the API returns, and appends an event to a local JSONL
+ * queue. Other commands read the queue with a named cursor, so each
+ * consumer sees every event once.
+ *
+ * Deliveries can be recorded as JSON Lines (`{ topic, headers, body }`
+ * with the raw body string) and replayed against a running receiver.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { appendJsonl, readJsonl } from './local-data.js';
+import type { Review } from './judgeme-client.js';
+
+export const WEBHOOK_TOPICS = ['review/created', 'review/updated'] as const;
+export type WebhookTopic = typeof WEBHOOK_TOPICS[number];
+
+// Node lower-cases incoming header names
+export const SIGNATURE_HEADER = 'judgeme-hmac-sha256';
+export const TOPIC_HEADER = 'judgeme-topic';
+export const DELIVERY_HEADER = 'judgeme-webhook-id';
+
+// Review payloads are a few KB; anything far bigger isn't from Judge.me
+const MAX_BODY_BYTES = 1024 * 1024;
+const REPLAY_TIMEOUT_MS = 10_000;
+
+export interface WebhookEvent {
+  id: string;
+  receivedAt: string;
+  topic: WebhookTopic;
+  reviewId: number;
+  deliveryId: string;       // Judge.me's delivery ID, or a hash of the body
+  review: Review;
+}
+
+export interface RecordedDelivery {
+  topic?: string;
+  headers: Record<string, string>;
+  body: string;             // Raw body, exactly as received
+}
+
+/** A delivery the receiver refuses, with the HTTP status to answer. */
+export class WebhookRejection extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'WebhookRejection';
+  }
+}
+
+// ============================================
+// SIGNATURES AND PAYLOADS
+// ============================================
+
+/** Base64 HMAC-SHA256 of the raw body, as sent in the signature header. */
+export function signWebhook(rawBody: string, secret: string): string {
+  return createHmac('sha256', secret).update(rawBody, 'utf-8').digest('base64');
+}
+
+/** Constant-time check of a base64 (or hex) HMAC-SHA256 signature. */
+export function verifyWebhookSignature(rawBody: string, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = createHmac('sha256', secret).update(rawBody, 'utf-8').digest();
+  const trimmed = signature.trim();
+  const given = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+function toIso(value: unknown, fallback: string): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return fallback;
+  const ms = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isNaN(ms) ? fallback : new Date(ms).toISOString();
+}
+
+/** Strings and numbers as text; anything else (objects, arrays, null) as the fallback. */
+function toText(value: unknown, fallback = ''): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : fallback;
+}
+
+function toRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+/** Pictures with both URLs; malformed entries are dropped. */
+function toPictures(value: unknown): Review['pictures'] {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap(picture => {
+    const urls = toRecord(toRecord(picture)?.urls);
+    return typeof urls?.original === 'string' && typeof urls.small === 'string'
+      ? [{ urls: { original: urls.original, small: urls.small } }]
+      : [];
+  });
+}
+
+/**
+ * Maps a webhook payload to a `Review`. Accepts the review wrapped in
+ * `{ review: ... }` or bare, and the flat reviewer/product fields some
+ * webhook versions send instead of nested objects.
+ */
+export function normalizeWebhookReview(payload: unknown, now: string = new Date().toISOString()): Review {
+  const outer = toRecord(payload);
+  const r = toRecord(outer?.review) ?? outer;
+  if (!r) throw new WebhookRejection(422, 'Payload has no review object');
+
+  const id = toNumber(r.id);
+  const rating = toNumber(r.rating);
+  if (id === undefined) throw new WebhookRejection(422, 'Review payload has no numeric id');
+  if (rating === undefined || rating < 1 || rating > 5) {
+    throw new WebhookRejection(422, `Review ${id} has no rating from 1 to 5`);
+  }
+
+  const reviewer = toRecord(r.reviewer) ?? {};
+  const product = toRecord(r.product) ?? {};
+  const createdAt = toIso(r.created_at, now);
+  const review: Review = {
+    id,
+    title: toText(r.title),
+    body: toText(r.body),
+    rating,
+    reviewer: {
+      id: toNumber(reviewer.id ?? r.reviewer_id) ?? 0,
+      email: toText(reviewer.email ?? r.reviewer_email),
+      name: toText(reviewer.name ?? r.reviewer_name),
+    },
+    product_external_id: toNumber(r.product_external_id ?? product.external_id) ?? 0,
+    product_title: toText(r.product_title ?? product.title),
+    curated: toText(r.curated, 'pending'),
+    published: Boolean(r.published),
+    hidden: Boolean(r.hidden),
+    verified: toText(r.verified, 'nothing'),
+    created_at: createdAt,
+    updated_at: toIso(r.updated_at, createdAt),
+  };
+  const pictures = toPictures(r.pictures);
+  if (pictures) review.pictures = pictures;
+  const reply = toRecord(r.reply);
+  if (reply?.body) {
+    review.reply = { body: toText(reply.body), created_at: toIso(reply.created_at, review.updated_at) };
+  }
+  return review;
+}
+
+/** Topic from the header, else from the payload. Unknown topics are rejected. */
+export function webhookTopic(headerTopic: string | undefined, payload: unknown): WebhookTopic {
+  const body = payload as Record<string, unknown> | null;
+  const topic = headerTopic ?? body?.topic ?? body?.event;
+  if (!WEBHOOK_TOPICS.includes(topic as WebhookTopic)) {
+    throw new WebhookRejection(422, `Unsupported webhook topic "${String(topic)}" (expected ${WEBHOOK_TOPICS.join(' or ')})`);
+  }
+  return topic as WebhookTopic;
+}
+
+// ============================================
+// EVENT QUEUE
+// ============================================
+
+/**
+ * Append-only queue of received events, with one cursor per consumer in
+ * a small JSON file beside it.
+ */
+export class WebhookEventQueue {
+  constructor(private eventsPath: string, private cursorsPath: string) {}
+
+  append(event: Omit<WebhookEvent, 'id' | 'receivedAt'>): WebhookEvent {
+    const record: WebhookEvent = {
+      id: `wh-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`,
+      receivedAt: new Date().toISOString(),
+      ...event,
+    };
+    appendJsonl(this.eventsPath, record);
+    return record;
+  }
+
+  /** True if a delivery with this ID was already queued (Judge.me retries deliveries). */
+  hasDelivery(deliveryId: string): boolean {
+    return readJsonl<WebhookEvent>(this.eventsPath).some(e => e.deliveryId === deliveryId);
+  }
+
+  /** Events after the consumer's cursor, oldest first. Without a consumer, every event. */
+  read(consumer?: string, limit?: number): WebhookEvent[] {
+    const events = readJsonl<WebhookEvent>(this.eventsPath);
+    const cursor = consumer ? this.loadCursors()[consumer] : undefined;
+    const start = cursor ? events.findIndex(e => e.id === cursor) + 1 : 0;
+    const pending = events.slice(start);
+    return limit !== undefined ? pending.slice(0, limit) : pending;
+  }
+
+  /** Moves the consumer's cursor to `eventId`, marking it and everything before as consumed. */
+  ack(consumer: string, eventId: string): void {
+    const cursors = this.loadCursors();
+    cursors[consumer] = eventId;
+    const tmp = `${this.cursorsPath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(cursors, null, 2), 'utf-8');
+    renameSync(tmp, this.cursorsPath);
+  }
+
+  private loadCursors(): Record<string, string> {
+    if (!existsSync(this.cursorsPath)) return {};
+    return JSON.parse(readFileSync(this.cursorsPath, 'utf-8')) as Record<string, string>;
+  }
+}
+
+// ============================================
+// RECEIVER
+// ============================================
+
+export interface WebhookReceiverOptions {
+  port: number;
+  host: string;
+  path: string;
+  secret: string;
+  /** Handles a verified delivery; returns null for a duplicate. */
+  onDelivery: (topic: WebhookTopic, review: Review, deliveryId: string) => WebhookEvent | null;
+  /** Appends every verified delivery here, for replay later. */
+  recordPath?: string;
+  log?: (line: string) => void;
+}
+
+export interface WebhookReceiver {
+  url: string;              // Full URL of the webhook endpoint
+  close(): Promise<void>;
+}
+
+function readRawBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new WebhookRejection(413, `Body larger than ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Starts the HTTP receiver and resolves once it listens. */
+export async function startWebhookReceiver(options: WebhookReceiverOptions): Promise<WebhookReceiver> {
+  const log = options.log ?? (() => {});
+
+  const server: Server = createServer(async (req, res) => {
+    const reply = (status: number, payload: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method !== 'POST' || url.pathname !== options.path) {
+      reply(404, { error: `No webhook endpoint at ${req.method} ${url.pathname}` });
+      return;
+    }
+
+    try {
+      const rawBody = await readRawBody(req);
+      if (!verifyWebhookSignature(rawBody, header(req, SIGNATURE_HEADER), options.secret)) {
+        throw new WebhookRejection(401, 'Missing or invalid webhook signature');
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        throw new WebhookRejection(400, 'Body is not valid JSON');
+      }
+      const topic = webhookTopic(header(req, TOPIC_HEADER), payload);
+      const review = normalizeWebhookReview(payload);
+      const deliveryId = header(req, DELIVERY_HEADER)
+        ?? createHash('sha256').update(rawBody).digest('hex').slice(0, 32);
+
+      if (options.recordPath) {
+        const recorded: RecordedDelivery = {
+          topic,
+          headers: Object.fromEntries(
+            [SIGNATURE_HEADER, TOPIC_HEADER, DELIVERY_HEADER]
+              .map(name => [name, header(req, name)])
+              .filter((entry): entry is [string, string] => entry[1] !== undefined)
+          ),
+          body: rawBody,
+        };
+        appendJsonl(options.recordPath, recorded);
+      }
+
+      const event = options.onDelivery(topic, review, deliveryId);
+      log(event ? `${topic} review ${review.id} -> ${event.id}` : `${topic} review ${review.id} (duplicate delivery, skipped)`);
+      // Judge.me only needs a 2xx; the event ID helps when replaying
+      reply(200, { received: true, eventId: event?.id ?? null, duplicate: event === null });
+    } catch (error) {
+      const status = error instanceof WebhookRejection ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      log(`rejected (${status}): ${message}`);
+      reply(status, { error: message });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host}:${port}${options.path}`,
+    close() {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+export interface ReplayResult {
+  index: number;
+  status?: number;
+  ok: boolean;
+  response?: unknown;
+  error?: string;
+}
+
+/**
+ * POSTs recorded deliveries to a receiver in order. With `secret`, each
+ * body is signed again (recordings from another secret would otherwise
+ * fail verification). Never throws; each result says what happened.
+ */
+export async function replayDeliveries(
+  url: string,
+  deliveries: RecordedDelivery[],
+  options: { secret?: string } = {}
+): Promise<ReplayResult[]> {
+  const results: ReplayResult[] = [];
+  for (const [index, delivery] of deliveries.entries()) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...delivery.headers };
+    if (delivery.topic && !headers[TOPIC_HEADER]) headers[TOPIC_HEADER] = delivery.topic;
+    if (options.secret) headers[SIGNATURE_HEADER] = signWebhook(delivery.body, options.secret);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REPLAY_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body: delivery.body, signal: controller.signal });
+      const text = await response.text();
+      let parsed: unknown = text;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // Keep the raw text
+      }
+      results.push({ index, status: response.status, ok: response.ok, response: parsed });
+    } catch (error) {
+      const message = error instanceof Error && error.name === 'AbortError'
+        ? `timed out after ${REPLAY_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : String(error);
+      results.push({ index, ok: false, error: message });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  return results;
+}
+
+/** Reads recorded deliveries from a JSON Lines file. */
+export function loadRecordedDeliveries(path: string): RecordedDelivery[] {
+  if (!existsSync(path)) throw new Error(`No recorded deliveries at ${path}`);
+  return readJsonl<RecordedDelivery>(path).map((entry, i) => {
+    if (typeof entry?.body !== 'string') {
+      throw new Error(`Recorded delivery #${i + 1} in ${path} needs a raw "body" string`);
+    }
+    return { topic: entry.topic, headers: entry.headers ?? {}, body: entry.body };
+  });
+}